@@ -0,0 +1,10 @@
+import js from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  {
+    ignores: ['build/', 'node_modules/'],
+  },
+  js.configs.recommended,
+  ...tseslint.configs.recommended
+);
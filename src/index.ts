@@ -3,21 +3,22 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { registerTools } from './tools/index.js';
+import { registerResources } from './resources/index.js';
 import { sessionManager } from './session/manager.js';
+import { SERVER_INFO } from './version.js';
 
 const server = new Server(
-  {
-    name: 'claude-eyes',
-    version: '0.1.0',
-  },
+  SERVER_INFO,
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true },
     },
   }
 );
 
 registerTools(server);
+registerResources(server);
 
 process.on('SIGINT', async () => {
   await sessionManager.close();
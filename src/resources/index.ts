@@ -0,0 +1,186 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { sessionManager, DEFAULT_SESSION } from '../session/manager.js';
+import { CaptureEvent, ConsoleLogEntry, NetworkRequestEntry } from '../session/types.js';
+import { previewConsoleArgs } from '../session/console-args.js';
+
+type ResourceKind = 'console' | 'errors' | 'network';
+
+const RESOURCE_KINDS: Record<ResourceKind, { description: string }> = {
+  console: { description: 'recent console messages, uncaught exceptions and unhandled rejections' },
+  errors: { description: 'recent console errors, uncaught exceptions and unhandled rejections' },
+  network: { description: 'recent network requests and their responses' },
+};
+
+// Entries returned per read; older ones stay reachable through the tools
+const READ_LIMIT = 100;
+
+// Chatty pages can log thousands of lines a second; coalesce notifications
+const NOTIFY_DELAY = 250;
+
+/**
+ * eyes://console for the default session, eyes://sessions/<name>/console
+ * for named ones.
+ */
+function resourceUri(session: string, kind: ResourceKind): string {
+  return session === DEFAULT_SESSION
+    ? `eyes://${kind}`
+    : `eyes://sessions/${encodeURIComponent(session)}/${kind}`;
+}
+
+function parseUri(uri: string): { session: string; kind: ResourceKind } | null {
+  const match = /^eyes:\/\/(?:sessions\/([^/]+)\/)?(console|errors|network)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+  return {
+    session: match[1] ? decodeURIComponent(match[1]) : DEFAULT_SESSION,
+    kind: match[2] as ResourceKind,
+  };
+}
+
+function isError(entry: ConsoleLogEntry): boolean {
+  return entry.type === 'error' || entry.type === 'pageerror';
+}
+
+function consoleJson(entry: ConsoleLogEntry) {
+  return {
+    id: entry.id,
+    type: entry.type,
+    text: entry.args && entry.args.length > 0 ? previewConsoleArgs(entry.args) : entry.text,
+    timestamp: entry.timestamp,
+    tabId: entry.tabId,
+    location: entry.location,
+    stack: entry.stack,
+  };
+}
+
+function networkJson(entry: NetworkRequestEntry) {
+  return {
+    id: entry.id,
+    method: entry.method,
+    url: entry.url,
+    resourceType: entry.resourceType,
+    status: entry.response?.status ?? null,
+    failure: entry.failure,
+    graphql: entry.graphql,
+    graphqlErrors: entry.graphqlErrors,
+    duration: entry.duration,
+    timestamp: entry.timestamp,
+    tabId: entry.tabId,
+  };
+}
+
+function touchedKinds(event: CaptureEvent): ResourceKind[] {
+  if (event.kind === 'network') {
+    return ['network'];
+  }
+  return isError(event.entry) ? ['console', 'errors'] : ['console'];
+}
+
+export function registerResources(server: Server) {
+  const subscriptions: Set<string> = new Set();
+  const pending: Set<string> = new Set();
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    timer = null;
+    for (const uri of pending) {
+      server.sendResourceUpdated({ uri }).catch(() => {});
+    }
+    pending.clear();
+  };
+
+  sessionManager.onCapture((event) => {
+    for (const kind of touchedKinds(event)) {
+      const uri = resourceUri(event.session, kind);
+      if (subscriptions.has(uri)) {
+        pending.add(uri);
+      }
+    }
+    if (pending.size > 0 && !timer) {
+      timer = setTimeout(flush, NOTIFY_DELAY);
+      timer.unref();
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const sessions = (await sessionManager.listSessions()).map((s) => s.name);
+    if (!sessions.includes(DEFAULT_SESSION)) {
+      sessions.unshift(DEFAULT_SESSION);
+    }
+
+    return {
+      resources: sessions.flatMap((session) =>
+        (Object.keys(RESOURCE_KINDS) as ResourceKind[]).map((kind) => ({
+          uri: resourceUri(session, kind),
+          name: session === DEFAULT_SESSION ? kind : `${session} ${kind}`,
+          description: `${RESOURCE_KINDS[kind].description}${session === DEFAULT_SESSION ? '' : ` in session "${session}"`}`,
+          mimeType: 'application/json',
+        }))
+      ),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: (Object.keys(RESOURCE_KINDS) as ResourceKind[]).map((kind) => ({
+        uriTemplate: `eyes://sessions/{session}/${kind}`,
+        name: `session ${kind}`,
+        description: `${RESOURCE_KINDS[kind].description} in a named session`,
+        mimeType: 'application/json',
+      })),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const parsed = parseUri(uri);
+    if (!parsed) {
+      throw new Error(`unknown resource "${uri}" (expected eyes://console, eyes://errors or eyes://network)`);
+    }
+    if (parsed.session !== DEFAULT_SESSION && !sessionManager.hasSession(parsed.session)) {
+      throw new Error(`session "${parsed.session}" not found`);
+    }
+
+    const session = await sessionManager.getSession(parsed.session);
+    let entries: unknown[];
+    if (parsed.kind === 'network') {
+      entries = session.getNetworkRequests().slice(-READ_LIMIT).map(networkJson);
+    } else {
+      const logs = session.getConsoleLogs(parsed.kind === 'errors' ? { types: ['error', 'pageerror'] } : undefined);
+      entries = logs.slice(-READ_LIMIT).map(consoleJson);
+    }
+
+    const stats = session.getStats()[parsed.kind === 'network' ? 'network' : 'console'];
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({ session: session.name, evicted: stats.evicted, entries }, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!parseUri(uri)) {
+      throw new Error(`unknown resource "${uri}"`);
+    }
+    subscriptions.add(uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+}
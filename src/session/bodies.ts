@@ -0,0 +1,34 @@
+export type BodyKind = 'text' | 'image' | 'binary';
+
+// Raster formats an MCP client can display; svg is served as text
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const TEXT_TYPES = /^text\/|[/+](json|xml|javascript|ecmascript|graphql)\b|x-www-form-urlencoded/;
+
+export function mimeType(headers: Record<string, string>): string {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === 'content-type');
+  return key ? headers[key].split(';')[0].trim().toLowerCase() : '';
+}
+
+/**
+ * Classifies a body by its content type, sniffing for NUL bytes when the
+ * server didn't send one.
+ */
+export function bodyKind(type: string, body: Buffer): BodyKind {
+  if (IMAGE_TYPES.includes(type)) {
+    return 'image';
+  }
+  if (TEXT_TYPES.test(type)) {
+    return 'text';
+  }
+  if (!type) {
+    return body.subarray(0, 1024).includes(0) ? 'binary' : 'text';
+  }
+  return 'binary';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,160 @@
+import { BufferStats } from './types.js';
+
+const MAX_EVICTED_NAMES = 100;
+
+/**
+ * Append-only log capped by entry count and approximate byte size. The
+ * oldest entries are dropped first; the number dropped is kept so tools can
+ * say when history is incomplete.
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private sizes: WeakMap<object, number> = new WeakMap();
+  private bytes = 0;
+  private evicted = 0;
+
+  constructor(
+    private maxEntries: number,
+    private maxBytes: number,
+    private sizeOf: (item: T) => number
+  ) {}
+
+  push(item: T): void {
+    const size = this.sizeOf(item);
+    this.sizes.set(item as object, size);
+    this.items.push(item);
+    this.bytes += size;
+    this.evict();
+  }
+
+  /**
+   * Re-measures an entry that grew after it was pushed (a response body or
+   * serialized console args arriving later). Entries already evicted are
+   * ignored.
+   */
+  resize(item: T): void {
+    const previous = this.sizes.get(item as object);
+    if (previous === undefined) {
+      return;
+    }
+    const size = this.sizeOf(item);
+    this.sizes.set(item as object, size);
+    this.bytes += size - previous;
+    this.evict();
+  }
+
+  private evict(): void {
+    // Always keep the newest entry, even if it alone exceeds the byte budget
+    while (this.items.length > 1 && (this.items.length > this.maxEntries || this.bytes > this.maxBytes)) {
+      const oldest = this.items.shift()!;
+      this.bytes -= this.sizes.get(oldest as object) ?? 0;
+      this.sizes.delete(oldest as object);
+      this.evicted++;
+    }
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  find(predicate: (item: T) => boolean): T | undefined {
+    return this.items.find(predicate);
+  }
+
+  clear(): void {
+    this.items = [];
+    this.sizes = new WeakMap();
+    this.bytes = 0;
+    this.evicted = 0;
+  }
+
+  stats(): BufferStats {
+    return {
+      entries: this.items.length,
+      bytes: this.bytes,
+      evicted: this.evicted,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+    };
+  }
+}
+
+/**
+ * Named store capped by entry count and byte size that evicts the least
+ * recently used entry. Reads count as use, so a baseline that keeps being
+ * diffed against survives a stream of newer captures.
+ */
+export class LruStore<V> {
+  private entries: Map<string, { value: V; size: number }> = new Map();
+  private bytes = 0;
+  private evictedCount = 0;
+  // Recent names only, for "was evicted" hints rather than a full history
+  private evicted: string[] = [];
+
+  constructor(
+    private maxEntries: number,
+    private maxBytes: number,
+    private sizeOf: (value: V) => number
+  ) {}
+
+  /**
+   * Stores the value and returns the names evicted to make room for it.
+   */
+  set(name: string, value: V): string[] {
+    this.delete(name);
+    const size = this.sizeOf(value);
+    this.entries.set(name, { value, size });
+    this.bytes += size;
+    this.evicted = this.evicted.filter((n) => n !== name);
+
+    const dropped: string[] = [];
+    while (this.entries.size > 1 && (this.entries.size > this.maxEntries || this.bytes > this.maxBytes)) {
+      // Map iteration order is insertion order, and get() re-inserts
+      const oldest = this.entries.keys().next().value!;
+      this.delete(oldest);
+      dropped.push(oldest);
+    }
+    this.evictedCount += dropped.length;
+    this.evicted.push(...dropped);
+    if (this.evicted.length > MAX_EVICTED_NAMES) {
+      this.evicted.splice(0, this.evicted.length - MAX_EVICTED_NAMES);
+    }
+    return dropped;
+  }
+
+  get(name: string): V | undefined {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(name);
+    this.entries.set(name, entry);
+    return entry.value;
+  }
+
+  wasEvicted(name: string): boolean {
+    return this.evicted.includes(name);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  private delete(name: string): void {
+    const entry = this.entries.get(name);
+    if (entry) {
+      this.bytes -= entry.size;
+      this.entries.delete(name);
+    }
+  }
+
+  stats(): BufferStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      evicted: this.evictedCount,
+      maxEntries: this.maxEntries,
+      maxBytes: this.maxBytes,
+    };
+  }
+}
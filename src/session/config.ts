@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { BrowserName, BufferLimits, ConfigSource, LoadedConfig, SessionConfig } from './types.js';
+
+export const CONFIG_FILE_NAMES = ['claude-eyes.config.json', 'claude-eyes.config.js'];
+
+export const BROWSER_NAMES: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+const viewportSchema = z.union([
+  z.string().regex(/^\d+x\d+$/, 'expected WIDTHxHEIGHT, e.g. 1280x720'),
+  z.object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+  }),
+]);
+
+const bufferLimitSchema = z
+  .object({
+    entries: z.number().int().positive().optional(),
+    megabytes: z.number().positive().optional(),
+  })
+  .strict();
+
+const configFileSchema = z
+  .object({
+    browser: z.enum(['chromium', 'firefox', 'webkit']).optional(),
+    headless: z.boolean().optional(),
+    baseUrl: z.string().url().optional(),
+    timeout: z.number().int().positive().optional(),
+    viewport: viewportSchema.optional(),
+    storageState: z.string().optional(),
+    cdpEndpoint: z.string().url().optional(),
+    baselineDir: z.string().optional(),
+    artifactsDir: z.string().optional(),
+    ignorePatterns: z.array(z.string()).optional(),
+    extraHeaders: z.record(z.string()).optional(),
+    devServer: z.string().min(1).optional(),
+    sourceMapDir: z.string().optional(),
+    limits: z
+      .object({
+        console: bufferLimitSchema.optional(),
+        network: bufferLimitSchema.optional(),
+        screenshots: bufferLimitSchema.optional(),
+        domSnapshots: bufferLimitSchema.optional(),
+        responseBodies: bufferLimitSchema.optional(),
+        events: bufferLimitSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+type ConfigFile = z.infer<typeof configFileSchema>;
+
+const defaults: SessionConfig = {
+  browser: 'chromium',
+  headless: true,
+  baseUrl: 'http://localhost:3000',
+  timeout: 30000,
+  viewport: { width: 1280, height: 720 },
+  baselineDir: '.claude-eyes/baselines',
+  artifactsDir: '.claude-eyes/artifacts',
+  ignorePatterns: [],
+  extraHeaders: {},
+  limits: {
+    console: { entries: 5000, megabytes: 20 },
+    network: { entries: 2000, megabytes: 100 },
+    screenshots: { entries: 50, megabytes: 250 },
+    domSnapshots: { entries: 50, megabytes: 50 },
+    responseBodies: { entries: 200, megabytes: 100 },
+    events: { entries: 1000, megabytes: 1 },
+  },
+};
+
+function parseViewport(value: string, name: string): { width: number; height: number } {
+  const match = /^(\d+)x(\d+)$/.exec(value.trim());
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    throw new Error(`invalid ${name} "${value}" (expected WIDTHxHEIGHT, e.g. 1280x720)`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+function parseBrowserName(value: string): BrowserName {
+  const name = value.toLowerCase() as BrowserName;
+  if (!BROWSER_NAMES.includes(name)) {
+    throw new Error(`unknown BROWSER "${value}" (expected one of: ${BROWSER_NAMES.join(', ')})`);
+  }
+  return name;
+}
+
+function parseTimeout(value: string): number {
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`invalid TIMEOUT "${value}" (expected a positive number of milliseconds)`);
+  }
+  return timeout;
+}
+
+function parseBoolean(value: string, name: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+  throw new Error(`invalid ${name} "${value}" (expected true/false, yes/no, on/off or 1/0)`);
+}
+
+/**
+ * Walks up from `cwd` to the filesystem root and returns the first
+ * claude-eyes config file found.
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | undefined {
+  let dir = resolve(cwd);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+async function readConfigFile(path: string): Promise<ConfigFile> {
+  let raw: unknown;
+  if (path.endsWith('.json')) {
+    raw = JSON.parse(await readFile(path, 'utf-8'));
+  } else {
+    const mod = await import(pathToFileURL(path).href);
+    raw = mod.default ?? mod;
+  }
+
+  const result = configFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`invalid config file ${path}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Builds the effective config: built-in defaults, overridden by the project
+ * config file, overridden by environment variables. Each key records which
+ * layer it came from so get_config can explain the result.
+ */
+export async function loadConfig(cwd: string = process.cwd()): Promise<LoadedConfig> {
+  const config: SessionConfig = { ...defaults };
+  const sources: LoadedConfig['sources'] = Object.fromEntries(
+    Object.keys(defaults).map((key) => [key, 'default'])
+  );
+
+  const set = <K extends keyof SessionConfig>(key: K, value: SessionConfig[K], source: ConfigSource) => {
+    config[key] = value;
+    sources[key] = source;
+  };
+
+  const file = findConfigFile(cwd);
+  if (file) {
+    const fromFile = await readConfigFile(file);
+    const base = dirname(file);
+
+    if (fromFile.browser !== undefined) set('browser', fromFile.browser, 'file');
+    if (fromFile.headless !== undefined) set('headless', fromFile.headless, 'file');
+    if (fromFile.baseUrl !== undefined) set('baseUrl', fromFile.baseUrl, 'file');
+    if (fromFile.timeout !== undefined) set('timeout', fromFile.timeout, 'file');
+    if (fromFile.viewport !== undefined) {
+      const viewport = typeof fromFile.viewport === 'string'
+        ? parseViewport(fromFile.viewport, 'viewport')
+        : fromFile.viewport;
+      set('viewport', viewport, 'file');
+    }
+    // Paths in the config file are relative to the file, not the cwd
+    if (fromFile.storageState !== undefined) set('storageState', resolve(base, fromFile.storageState), 'file');
+    if (fromFile.cdpEndpoint !== undefined) set('cdpEndpoint', fromFile.cdpEndpoint, 'file');
+    if (fromFile.baselineDir !== undefined) set('baselineDir', resolve(base, fromFile.baselineDir), 'file');
+    if (fromFile.artifactsDir !== undefined) set('artifactsDir', resolve(base, fromFile.artifactsDir), 'file');
+    if (fromFile.ignorePatterns !== undefined) set('ignorePatterns', fromFile.ignorePatterns, 'file');
+    if (fromFile.extraHeaders !== undefined) set('extraHeaders', fromFile.extraHeaders, 'file');
+    if (fromFile.devServer !== undefined) set('devServer', fromFile.devServer, 'file');
+    if (fromFile.limits !== undefined) {
+      // Merged per buffer and field, so one override keeps the other defaults
+      const limits = { ...config.limits };
+      for (const key of Object.keys(limits) as (keyof BufferLimits)[]) {
+        limits[key] = { ...limits[key], ...fromFile.limits[key] };
+      }
+      set('limits', limits, 'file');
+    }
+    if (fromFile.sourceMapDir !== undefined) set('sourceMapDir', resolve(base, fromFile.sourceMapDir), 'file');
+  }
+
+  const env = process.env;
+  if (env.BROWSER) set('browser', parseBrowserName(env.BROWSER), 'env');
+  if (env.HEADLESS) set('headless', parseBoolean(env.HEADLESS, 'HEADLESS'), 'env');
+  if (env.BASE_URL) set('baseUrl', env.BASE_URL, 'env');
+  if (env.TIMEOUT) set('timeout', parseTimeout(env.TIMEOUT), 'env');
+  if (env.VIEWPORT) set('viewport', parseViewport(env.VIEWPORT, 'VIEWPORT'), 'env');
+  if (env.STORAGE_STATE) set('storageState', resolve(env.STORAGE_STATE), 'env');
+  if (env.CDP_ENDPOINT) set('cdpEndpoint', env.CDP_ENDPOINT, 'env');
+  if (env.BASELINE_DIR) set('baselineDir', resolve(env.BASELINE_DIR), 'env');
+  if (env.ARTIFACTS_DIR) set('artifactsDir', resolve(env.ARTIFACTS_DIR), 'env');
+  if (env.DEV_SERVER_COMMAND) set('devServer', env.DEV_SERVER_COMMAND, 'env');
+  if (env.SOURCE_MAP_DIR) set('sourceMapDir', resolve(env.SOURCE_MAP_DIR), 'env');
+
+  if (sources.baselineDir === 'default') {
+    config.baselineDir = resolve(cwd, config.baselineDir);
+  }
+  if (sources.artifactsDir === 'default') {
+    config.artifactsDir = resolve(cwd, config.artifactsDir);
+  }
+
+  return { config, sources, file };
+}
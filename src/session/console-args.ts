@@ -0,0 +1,175 @@
+import { JSHandle } from 'playwright';
+import { ConsoleArg } from './types.js';
+
+export interface SerializeLimits {
+  maxDepth: number;
+  maxKeys: number;
+  maxStringLength: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_LIMITS: SerializeLimits = {
+  maxDepth: 5,
+  maxKeys: 100,
+  maxStringLength: 2000,
+  maxBytes: 50_000,
+};
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Runs in the page. Converts any value into something JSON can hold,
+ * expanding Errors, DOM nodes, Maps and Sets that JSON.stringify would
+ * otherwise flatten to {} and marking cycles and cut-off branches.
+ */
+function serializeInPage(value: unknown, limits: SerializeLimits): { type: string; json: string; truncated: boolean } {
+  // Recursion goes through a method so tsx's keepNames output stays page-safe
+  const walk = {
+    truncated: false,
+    seen: new WeakSet<object>(),
+    describe(v: unknown, depth: number): unknown {
+      if (v === null) return null;
+      if (v === undefined) return '[undefined]';
+      switch (typeof v) {
+        case 'string':
+          if (v.length > limits.maxStringLength) {
+            walk.truncated = true;
+            return v.slice(0, limits.maxStringLength) + '...';
+          }
+          return v;
+        case 'number':
+          return Number.isFinite(v) ? v : String(v);
+        case 'boolean':
+          return v;
+        case 'bigint':
+          return `${v}n`;
+        case 'symbol':
+          return v.toString();
+        case 'function':
+          return `[Function ${(v as { name?: string }).name || 'anonymous'}]`;
+      }
+
+      const obj = v as object;
+      if (walk.seen.has(obj)) return '[Circular]';
+      if (depth >= limits.maxDepth) {
+        walk.truncated = true;
+        return Array.isArray(obj) ? `[Array(${obj.length})]` : `[${obj.constructor?.name ?? 'Object'}]`;
+      }
+      walk.seen.add(obj);
+
+      if (obj instanceof Error) {
+        const out: Record<string, unknown> = { name: obj.name, message: obj.message, stack: obj.stack };
+        for (const key of Object.keys(obj)) {
+          out[key] = walk.describe((obj as unknown as Record<string, unknown>)[key], depth + 1);
+        }
+        if ('cause' in obj && obj.cause !== undefined) out.cause = walk.describe(obj.cause, depth + 1);
+        return out;
+      }
+      if (obj instanceof Date) return isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString();
+      if (obj instanceof RegExp) return obj.toString();
+      if (typeof Node !== 'undefined' && obj instanceof Node) {
+        if (obj instanceof Element) {
+          const id = obj.id ? `#${obj.id}` : '';
+          const classes = obj.classList.length > 0 ? `.${Array.from(obj.classList).join('.')}` : '';
+          return `<${obj.tagName.toLowerCase()}${id}${classes}>`;
+        }
+        return `[${obj.nodeName}]`;
+      }
+      if (obj instanceof Map) {
+        return { '[Map]': walk.describe(Object.fromEntries(Array.from(obj.entries()).map(([k, val]) => [String(k), val])), depth) };
+      }
+      if (obj instanceof Set) {
+        return { '[Set]': walk.describe(Array.from(obj), depth) };
+      }
+
+      const keys = Array.isArray(obj) ? obj.map((_, i) => i) : Object.keys(obj);
+      if (keys.length > limits.maxKeys) walk.truncated = true;
+      const kept = keys.slice(0, limits.maxKeys);
+
+      if (Array.isArray(obj)) {
+        const out = kept.map((i) => walk.describe(obj[i as number], depth + 1));
+        if (keys.length > kept.length) out.push(`... ${keys.length - kept.length} more`);
+        return out;
+      }
+      const out: Record<string, unknown> = {};
+      for (const key of kept) {
+        let child: unknown;
+        try {
+          child = (obj as Record<string, unknown>)[key as string];
+        } catch {
+          child = '[Getter threw]';
+        }
+        out[key as string] = walk.describe(child, depth + 1);
+      }
+      if (keys.length > kept.length) out['...'] = `${keys.length - kept.length} more keys`;
+      return out;
+    },
+  };
+
+  const type = value === null
+    ? 'null'
+    : value instanceof Error
+      ? 'error'
+      : Array.isArray(value)
+        ? 'array'
+        : typeof value;
+
+  let json = JSON.stringify(walk.describe(value, 0)) ?? 'undefined';
+  if (json.length > limits.maxBytes) {
+    walk.truncated = true;
+    json = JSON.stringify(json.slice(0, limits.maxBytes) + '...');
+  }
+  return { type, json, truncated: walk.truncated };
+}
+
+export async function serializeConsoleArg(handle: JSHandle, limits: SerializeLimits = DEFAULT_LIMITS): Promise<ConsoleArg> {
+  const { type, json, truncated } = await handle.evaluate(serializeInPage, limits);
+  return { type, value: json, ...(truncated ? { truncated } : {}) };
+}
+
+function argText(arg: ConsoleArg): string {
+  return arg.type === 'string' ? (JSON.parse(arg.value) as string) : arg.value;
+}
+
+function previewArg(arg: ConsoleArg): string {
+  const text = argText(arg);
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + '...' : text;
+}
+
+/**
+ * One-line form for log listings: strings print as-is like the devtools
+ * console, everything else as compact JSON cut to a preview length. A
+ * format string first argument gets the console's %s, %d, %i, %f, %o, %O
+ * and %c substitutions; arguments it doesn't consume are appended.
+ */
+export function previewConsoleArgs(args: ConsoleArg[]): string {
+  const [first, ...rest] = args;
+  if (first?.type !== 'string') {
+    return args.map(previewArg).join(' ');
+  }
+
+  let used = 0;
+  const text = argText(first).replace(/%([sdifoOc%])/g, (match, spec: string) => {
+    if (spec === '%') {
+      return '%';
+    }
+    const arg = rest[used];
+    if (!arg) {
+      return match;
+    }
+    used++;
+    switch (spec) {
+      case 'c':
+        return '';
+      case 'd':
+      case 'i':
+        return String(Number.parseInt(argText(arg), 10));
+      case 'f':
+        return String(Number.parseFloat(argText(arg)));
+      default:
+        return previewArg(arg);
+    }
+  });
+  const head = text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + '...' : text;
+  return [head, ...rest.slice(used).map(previewArg)].join(' ');
+}
@@ -0,0 +1,221 @@
+import { spawn, ChildProcess } from 'child_process';
+import { connect } from 'net';
+import { DevServerLogEntry, DevServerStatus } from './types.js';
+
+const MAX_LOG_LINES = 1000;
+const POLL_INTERVAL = 250;
+const STOP_GRACE_PERIOD = 5000;
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+
+/**
+ * Resolves the host and port a url is served on, defaulting the port from
+ * the protocol like the browser does.
+ */
+export function hostAndPort(url: string): { host: string; port: number } {
+  const parsed = new URL(url);
+  const port = parsed.port ? Number(parsed.port) : parsed.protocol === 'https:' ? 443 : 80;
+  return { host: parsed.hostname.replace(/^\[|\]$/g, ''), port };
+}
+
+function isPortOpen(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect({ host, port });
+    const done = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(1000, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/**
+ * Returns the address that accepts connections on the port, or null.
+ * "localhost" is probed on both loopbacks: dev servers bind either one
+ * depending on the tool and the node version.
+ */
+export async function listeningAddress(host: string, port: number): Promise<string | null> {
+  const candidates = host === 'localhost' ? ['127.0.0.1', '::1'] : [host];
+  for (const candidate of candidates) {
+    if (await isPortOpen(candidate, port)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * One dev server process owned by the MCP server. The command runs in its
+ * own process group so stopping it also stops whatever it spawned (vite,
+ * next, webpack workers...).
+ */
+export class DevServer {
+  private child: ChildProcess;
+  private logs: DevServerLogEntry[] = [];
+  private partial: Record<DevServerLogEntry['stream'], string> = { stdout: '', stderr: '' };
+  private exitCode: number | null | undefined = undefined;
+  private signal: NodeJS.Signals | null = null;
+  private exited: Promise<void>;
+  private ready = false;
+  readonly startedAt = Date.now();
+
+  constructor(readonly command: string, readonly cwd: string) {
+    this.child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, FORCE_COLOR: '0' },
+    });
+
+    this.child.stdout?.on('data', (chunk: Buffer) => this.append('stdout', chunk));
+    this.child.stderr?.on('data', (chunk: Buffer) => this.append('stderr', chunk));
+
+    this.exited = new Promise((resolve) => {
+      this.child.once('exit', (code, signal) => {
+        this.flush();
+        this.exitCode = code;
+        this.signal = signal;
+        resolve();
+      });
+      this.child.once('error', (err) => {
+        this.push('stderr', `failed to start: ${err.message}`);
+        this.exitCode = this.exitCode ?? null;
+        resolve();
+      });
+    });
+  }
+
+  private append(stream: DevServerLogEntry['stream'], chunk: Buffer): void {
+    const text = this.partial[stream] + chunk.toString('utf-8');
+    const lines = text.split(/\r?\n/);
+    this.partial[stream] = lines.pop() ?? '';
+    for (const line of lines) {
+      this.push(stream, line);
+    }
+  }
+
+  private flush(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (this.partial[stream]) {
+        this.push(stream, this.partial[stream]);
+        this.partial[stream] = '';
+      }
+    }
+  }
+
+  private push(stream: DevServerLogEntry['stream'], text: string): void {
+    // Strip ANSI escapes that some tools print even without a TTY
+    const clean = text.replace(ANSI_ESCAPE, '');
+    this.logs.push({ stream, text: clean, timestamp: Date.now() });
+    if (this.logs.length > MAX_LOG_LINES) {
+      this.logs.splice(0, this.logs.length - MAX_LOG_LINES);
+    }
+  }
+
+  isRunning(): boolean {
+    return this.exitCode === undefined;
+  }
+
+  /**
+   * Whether anything in the process group is still running, even after the
+   * shell itself has exited.
+   */
+  isAlive(): boolean {
+    const pid = this.child.pid;
+    return pid !== undefined && this.isGroupAlive(pid);
+  }
+
+  /**
+   * Polls until the url's port accepts connections. Fails early if the
+   * process exits first, so a broken command doesn't wait out the timeout.
+   */
+  async waitForPort(url: string, timeout: number): Promise<void> {
+    const { host, port } = hostAndPort(url);
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      if (!this.isRunning()) {
+        throw new Error(`dev server exited with code ${this.exitCode} before ${host}:${port} accepted connections`);
+      }
+      if (await listeningAddress(host, port)) {
+        this.ready = true;
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+    throw new Error(`timed out after ${timeout}ms waiting for ${host}:${port} to accept connections`);
+  }
+
+  /**
+   * Sends SIGTERM to the whole process group, escalating to SIGKILL if any
+   * process in it is still alive after a grace period. The shell often exits
+   * on SIGTERM while the server it started keeps running.
+   */
+  async stop(): Promise<void> {
+    const pid = this.child.pid;
+    if (pid === undefined || !this.isGroupAlive(pid)) {
+      return;
+    }
+    this.kill('SIGTERM');
+    const deadline = Date.now() + STOP_GRACE_PERIOD;
+    while (this.isGroupAlive(pid) && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+    if (this.isGroupAlive(pid)) {
+      this.kill('SIGKILL');
+    }
+    await this.exited;
+  }
+
+  private isGroupAlive(pid: number): boolean {
+    try {
+      // Signal 0 only checks whether any process in the group exists
+      process.kill(-pid, 0);
+      return true;
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code === 'ESRCH') return false;
+      if (code === 'EPERM') return true;
+      // No process groups on this platform; fall back to the shell
+      return this.isRunning();
+    }
+  }
+
+  private kill(signal: NodeJS.Signals): void {
+    const pid = this.child.pid;
+    if (pid === undefined) return;
+    try {
+      // Negative pid targets the process group created by detached: true
+      process.kill(-pid, signal);
+    } catch {
+      this.child.kill(signal);
+    }
+  }
+
+  getLogs(options: { stream?: DevServerLogEntry['stream']; search?: string; limit?: number } = {}): DevServerLogEntry[] {
+    let logs = this.logs;
+    if (options.stream) {
+      logs = logs.filter((entry) => entry.stream === options.stream);
+    }
+    if (options.search) {
+      const needle = options.search.toLowerCase();
+      logs = logs.filter((entry) => entry.text.toLowerCase().includes(needle));
+    }
+    return options.limit ? logs.slice(-options.limit) : logs;
+  }
+
+  getStatus(): DevServerStatus {
+    return {
+      command: this.command,
+      cwd: this.cwd,
+      pid: this.child.pid,
+      running: this.isRunning(),
+      ready: this.ready,
+      exitCode: this.exitCode,
+      signal: this.signal ?? undefined,
+      startedAt: this.startedAt,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { GraphQLOperation } from './types.js';
+
+const MAX_ERRORS = 5;
+
+// A search api posting {"query": "shoes"} must not look like GraphQL
+const GRAPHQL_DOCUMENT = /^\s*(?:#[^\n]*\n\s*)*(?:\{|(?:query|mutation|subscription|fragment)\b)/;
+
+interface GraphQLPayload {
+  query?: unknown;
+  operationName?: unknown;
+  variables?: unknown;
+  extensions?: unknown;
+}
+
+function header(headers: Record<string, string>, name: string): string {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : '';
+}
+
+/**
+ * Finds the type of the named operation, or of the first operation when no
+ * name is given. Persisted queries send no text and are assumed to be
+ * queries.
+ */
+function operationType(query: string | undefined, name: string | undefined): GraphQLOperation['operationType'] {
+  if (!query) {
+    return 'query';
+  }
+  const text = query.replace(/#[^\n]*/g, '');
+  const named = name && /^\w+$/.test(name)
+    ? new RegExp(`\\b(query|mutation|subscription)\\s+${name}\\b`).exec(text)
+    : null;
+  const first = /(?:^|[}\s])(query|mutation|subscription)\b/.exec(text);
+  const type = named?.[1] ?? (text.trimStart().startsWith('{') ? 'query' : first?.[1]);
+  return (type as GraphQLOperation['operationType']) ?? 'query';
+}
+
+function operationName(query: string | undefined): string | undefined {
+  if (!query) {
+    return undefined;
+  }
+  const match = /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(query.replace(/#[^\n]*/g, ''));
+  return match?.[1];
+}
+
+function toOperation(payload: GraphQLPayload): GraphQLOperation | null {
+  const query = typeof payload.query === 'string' ? payload.query : undefined;
+  if (query && !GRAPHQL_DOCUMENT.test(query)) {
+    return null;
+  }
+  // Without a query or persisted query extensions this is some other json
+  // api, even if it sends an operationName
+  if (!query && (payload.extensions === undefined || payload.extensions === null)) {
+    return null;
+  }
+  const name = typeof payload.operationName === 'string' && payload.operationName
+    ? payload.operationName
+    : operationName(query);
+
+  let variables: string | undefined;
+  if (typeof payload.variables === 'string') {
+    variables = payload.variables && payload.variables !== '{}' ? payload.variables : undefined;
+  } else if (payload.variables && typeof payload.variables === 'object' && Object.keys(payload.variables).length > 0) {
+    variables = JSON.stringify(payload.variables);
+  }
+
+  return { operationName: name, operationType: operationType(query, name), variables };
+}
+
+/**
+ * Recognizes GraphQL over http: json POST bodies (single or batched),
+ * application/graphql bodies, and GET requests with a query parameter.
+ * Persisted queries are recognized by their `extensions` field. Returns
+ * undefined for anything else.
+ */
+export function parseGraphQLRequest(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  postData: string | undefined
+): GraphQLOperation[] | undefined {
+  if (method === 'GET') {
+    let params: URLSearchParams;
+    try {
+      params = new URL(url).searchParams;
+    } catch {
+      return undefined;
+    }
+    if (!params.has('query') && !params.has('extensions')) {
+      return undefined;
+    }
+    const operation = toOperation({
+      query: params.get('query') ?? undefined,
+      operationName: params.get('operationName') ?? undefined,
+      variables: params.get('variables') ?? undefined,
+      extensions: params.get('extensions') ?? undefined,
+    });
+    return operation ? [operation] : undefined;
+  }
+
+  if (!postData) {
+    return undefined;
+  }
+  if (header(headers, 'content-type').includes('application/graphql')) {
+    return [{ operationName: operationName(postData), operationType: operationType(postData, undefined) }];
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(postData);
+  } catch {
+    return undefined;
+  }
+  const payloads = (Array.isArray(payload) ? payload : [payload]) as GraphQLPayload[];
+  const operations: GraphQLOperation[] = [];
+  for (const item of payloads) {
+    const operation = item && typeof item === 'object' ? toOperation(item) : null;
+    if (!operation) {
+      return undefined;
+    }
+    operations.push(operation);
+  }
+  return operations.length > 0 ? operations : undefined;
+}
+
+/**
+ * Collects the messages of the `errors` arrays in a GraphQL response, which
+ * servers return with status 200.
+ */
+export function graphQLErrors(body: string): string[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  const messages: string[] = [];
+  for (const result of Array.isArray(payload) ? payload : [payload]) {
+    const errors = (result as { errors?: unknown } | null)?.errors;
+    if (!Array.isArray(errors)) {
+      continue;
+    }
+    for (const error of errors) {
+      const message = (error as { message?: unknown } | null)?.message;
+      messages.push(typeof message === 'string' ? message : JSON.stringify(error));
+    }
+  }
+  return messages.slice(0, MAX_ERRORS);
+}
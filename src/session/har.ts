@@ -0,0 +1,156 @@
+import { open } from 'fs/promises';
+import { NetworkRequestEntry } from './types.js';
+import { bodyKind, mimeType } from './bodies.js';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64'; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  comment?: string;
+  // Custom fields; HAR reserves the underscore prefix for them
+  _tabId?: string;
+  _networkProfile?: string;
+  _mocked?: string;
+  _replayed?: boolean;
+  _failed?: boolean;
+  _error?: string;
+}
+
+function toHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+function queryString(url: string): HarHeader[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Converts one captured request to a HAR 1.2 entry. Only the total duration
+ * is captured, so it is reported as wait time. `body` is the response body if
+ * it could still be read; binary ones are base64.
+ */
+function toHarEntry(entry: NetworkRequestEntry, body?: Buffer): HarEntry {
+  const response = entry.response;
+  const type = response ? mimeType(response.headers) : '';
+  const binary = !!body && bodyKind(type, body) !== 'text';
+  const duration = entry.duration ?? 0;
+  const failed = !!entry.failure || !!entry.graphqlErrors || (!!response && response.status >= 400);
+
+  const har: HarEntry = {
+    startedDateTime: new Date(entry.timestamp).toISOString(),
+    time: duration,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHeaders(entry.headers),
+      queryString: queryString(entry.url),
+      headersSize: -1,
+      bodySize: entry.postData?.length ?? 0,
+    },
+    response: {
+      status: response?.status ?? 0,
+      statusText: response?.statusText ?? '',
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHeaders(response?.headers ?? {}),
+      content: {
+        size: body ? body.length : 0,
+        mimeType: (response && header(response.headers, 'content-type')) ?? 'x-unknown',
+        text: body?.toString(binary ? 'base64' : 'utf-8'),
+        encoding: binary ? 'base64' : undefined,
+        comment: response && !body ? 'body not available' : undefined,
+      },
+      redirectURL: (response && header(response.headers, 'location')) ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: duration, receive: 0 },
+    comment: response || entry.failure ? undefined : 'no response captured',
+    _tabId: entry.tabId,
+    _networkProfile: entry.networkProfile,
+    _mocked: entry.mocked,
+    _replayed: entry.replayed,
+    _failed: failed || undefined,
+    _error: entry.failure,
+  };
+
+  if (entry.postData !== undefined) {
+    har.request.postData = {
+      mimeType: header(entry.headers, 'content-type') ?? 'application/octet-stream',
+      text: entry.postData,
+    };
+  }
+  return har;
+}
+
+/**
+ * Writes captured requests to `path` as a HAR 1.2 log, one entry at a time so
+ * only a single response body is held in memory. `readBody` resolves to
+ * undefined when the browser no longer has the body.
+ */
+export async function writeHar(
+  path: string,
+  entries: NetworkRequestEntry[],
+  creator: { name: string; version: string },
+  readBody: (entry: NetworkRequestEntry) => Promise<Buffer | undefined>
+): Promise<{ failed: number; mocked: number; unavailable: number }> {
+  const counts = { failed: 0, mocked: 0, unavailable: 0 };
+  const file = await open(path, 'w');
+  try {
+    await file.write(`{\n  "log": {\n    "version": "1.2",\n    "creator": ${JSON.stringify(creator)},\n    "entries": [`);
+    for (const [index, entry] of entries.entries()) {
+      const body = entry.response ? await readBody(entry) : undefined;
+      if (entry.response && !body) counts.unavailable++;
+
+      const har = toHarEntry(entry, body);
+      if (har._failed) counts.failed++;
+      if (har._mocked) counts.mocked++;
+      const json = JSON.stringify(har, null, 2).replace(/\n/g, '\n      ');
+      await file.write(`${index > 0 ? ',' : ''}\n      ${json}`);
+    }
+    await file.write('\n    ]\n  }\n}\n');
+  } finally {
+    await file.close();
+  }
+  return counts;
+}
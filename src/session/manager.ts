@@ -1,226 +1,218 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import {
-  ConsoleLogEntry,
-  NetworkRequestEntry,
-  ConsoleFilter,
-  NetworkFilter,
-  SessionConfig,
-} from './types.js';
-
-function generateId(): string {
-  return Math.random().toString(36).substring(2, 15);
-}
+import { chromium, firefox, webkit, Browser, BrowserType } from 'playwright';
+import { dirname } from 'path';
+import { BrowserName, CaptureListener, LoadedConfig, SessionConfig, SessionInfo, SessionOptions } from './types.js';
+import { BrowserSession } from './session.js';
+import { loadConfig } from './config.js';
+import { DevServer } from './dev-server.js';
+import { SourceMapResolver } from './sourcemaps.js';
 
-function parseViewport(viewport: string): { width: number; height: number } {
-  const [width, height] = viewport.split('x').map(Number);
-  return { width: width || 1280, height: height || 720 };
-}
+export const DEFAULT_SESSION = 'default';
 
-function getConfig(): SessionConfig {
-  return {
-    headless: process.env.HEADLESS !== 'false',
-    baseUrl: process.env.BASE_URL || 'http://localhost:3000',
-    timeout: parseInt(process.env.TIMEOUT || '30000', 10),
-    viewport: parseViewport(process.env.VIEWPORT || '1280x720'),
-  };
-}
+const browserTypes: Record<BrowserName, BrowserType> = { chromium, firefox, webkit };
 
 class SessionManager {
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
-  private config: SessionConfig | null = null;
-
-  private consoleLogs: ConsoleLogEntry[] = [];
-  private networkRequests: NetworkRequestEntry[] = [];
-  private screenshots: Map<string, Buffer> = new Map();
-  private domSnapshots: Map<string, string> = new Map();
-
-  async ensureBrowser(): Promise<Page> {
-    if (!this.browser) {
-      // Read config lazily so env vars can be set before first use
-      this.config = getConfig();
-
-      this.browser = await chromium.launch({
-        headless: this.config.headless,
-      });
-      this.context = await this.browser.newContext({
-        viewport: this.config.viewport,
-      });
-      this.page = await this.context.newPage();
-      this.page.setDefaultTimeout(this.config.timeout);
-      this.attachListeners(this.page);
+  private browsers: Map<BrowserName, Browser> = new Map();
+  private launching: Map<BrowserName, Promise<Browser>> = new Map();
+  private loaded: Promise<LoadedConfig> | null = null;
+  private sessions: Map<string, BrowserSession> = new Map();
+  private devServer: DevServer | null = null;
+  private sourceMaps: SourceMapResolver | null = null;
+  private captureListeners: Set<CaptureListener> = new Set();
+
+  /**
+   * Returns the named session. Only the default session is created on first
+   * use; named ones must come from create_session, so a mistyped name fails
+   * instead of reporting on a fresh, empty session.
+   */
+  async getSession(name: string = DEFAULT_SESSION): Promise<BrowserSession> {
+    const session = this.sessions.get(name);
+    if (session) {
+      return session;
     }
-    return this.page!;
-  }
-
-  private attachListeners(page: Page): void {
-    page.on('console', (msg) => {
-      const type = msg.type() as ConsoleLogEntry['type'];
-      const location = msg.location();
-
-      this.consoleLogs.push({
-        type,
-        text: msg.text(),
-        timestamp: Date.now(),
-        location: location.url ? {
-          url: location.url,
-          lineNumber: location.lineNumber,
-          columnNumber: location.columnNumber,
-        } : undefined,
-      });
-    });
-
-    page.on('request', (request) => {
-      const entry: NetworkRequestEntry = {
-        id: generateId(),
-        url: request.url(),
-        method: request.method(),
-        headers: request.headers(),
-        postData: request.postData() ?? undefined,
-        resourceType: request.resourceType(),
-        timestamp: Date.now(),
-      };
-      this.networkRequests.push(entry);
-    });
-
-    page.on('response', async (response) => {
-      const request = response.request();
-      const entry = this.networkRequests.find(
-        (r) => r.url === request.url() && r.method === request.method() && !r.response
+    if (name !== DEFAULT_SESSION) {
+      const names = [DEFAULT_SESSION, ...Array.from(this.sessions.keys()).filter((n) => n !== DEFAULT_SESSION)];
+      throw new Error(
+        `no session "${name}"\nsuggestion: use one of ${names.map((n) => `"${n}"`).join(', ')}, or create_session first`
       );
-
-      if (entry) {
-        entry.duration = Date.now() - entry.timestamp;
-        entry.response = {
-          status: response.status(),
-          statusText: response.statusText(),
-          headers: response.headers(),
-          body: await this.safeGetBody(response),
-        };
-      }
-    });
-  }
-
-  private async safeGetBody(response: import('playwright').Response): Promise<string | undefined> {
-    try {
-      const contentType = response.headers()['content-type'] || '';
-      if (contentType.includes('application/json') || contentType.includes('text/')) {
-        const text = await response.text();
-        if (text.length > 10000) {
-          return text.substring(0, 10000) + '... [truncated]';
-        }
-        return text;
-      }
-      return undefined;
-    } catch {
-      return undefined;
     }
+    return this.createSession(name);
   }
 
-  getPage(): Page | null {
-    return this.page;
-  }
-
-  getConfig(): SessionConfig {
-    if (!this.config) {
-      this.config = getConfig();
+  /**
+   * Registers a new session. Every session gets its own BrowserContext, so
+   * cookies and storage never leak between them.
+   */
+  async createSession(name: string, options: SessionOptions = {}): Promise<BrowserSession> {
+    if (this.sessions.has(name)) {
+      throw new Error(`session "${name}" already exists`);
+    }
+    const config = await this.getConfig();
+    const engine = options.browser ?? config.browser;
+    // In CDP mode the default session adopts the user's own browser context
+    const attach = !!config.cdpEndpoint && name === DEFAULT_SESSION;
+    const session = new BrowserSession(name, engine, config, this, attach);
+    for (const listener of this.captureListeners) {
+      session.onCapture(listener);
     }
-    return this.config;
+    this.sessions.set(name, session);
+    return session;
   }
 
-  getConsoleLogs(filter?: ConsoleFilter): ConsoleLogEntry[] {
-    let logs = [...this.consoleLogs];
-
-    if (filter?.types && filter.types.length > 0) {
-      logs = logs.filter((log) => filter.types!.includes(log.type));
+  /**
+   * Listens to captures from every session, including ones created later.
+   */
+  onCapture(listener: CaptureListener): void {
+    this.captureListeners.add(listener);
+    for (const session of this.sessions.values()) {
+      session.onCapture(listener);
     }
+  }
 
-    if (filter?.since) {
-      logs = logs.filter((log) => log.timestamp >= filter.since!);
-    }
+  hasSession(name: string): boolean {
+    return this.sessions.has(name);
+  }
 
-    if (filter?.search) {
-      const searchLower = filter.search.toLowerCase();
-      logs = logs.filter((log) => log.text.toLowerCase().includes(searchLower));
+  async listSessions(): Promise<SessionInfo[]> {
+    const infos: SessionInfo[] = [];
+    for (const session of this.sessions.values()) {
+      const tabs = session.isStarted() ? await session.listTabs() : [];
+      const active = tabs.find((t) => t.active);
+      infos.push({
+        name: session.name,
+        browser: session.engine,
+        started: session.isStarted(),
+        tabs: tabs.length,
+        url: active?.url,
+        createdAt: session.createdAt,
+      });
     }
-
-    return logs;
+    return infos;
   }
 
-  clearConsoleLogs(): void {
-    this.consoleLogs = [];
+  async destroySession(name: string): Promise<boolean> {
+    const session = this.sessions.get(name);
+    if (!session) {
+      return false;
+    }
+    this.sessions.delete(name);
+    await session.close();
+    return true;
   }
 
-  getNetworkRequests(filter?: NetworkFilter): NetworkRequestEntry[] {
-    let requests = [...this.networkRequests];
-
-    if (filter?.urlPattern) {
-      const regex = new RegExp(filter.urlPattern);
-      requests = requests.filter((r) => regex.test(r.url));
+  async getBrowser(engine: BrowserName): Promise<Browser> {
+    const running = this.browsers.get(engine);
+    if (running) {
+      return running;
     }
-
-    if (filter?.methods && filter.methods.length > 0) {
-      const methodsUpper = filter.methods.map((m) => m.toUpperCase());
-      requests = requests.filter((r) => methodsUpper.includes(r.method));
+    // Sessions may start concurrently; make sure they share one launch
+    const config = await this.getConfig();
+    if (config.cdpEndpoint && engine !== 'chromium') {
+      throw new Error(`CDP_ENDPOINT only supports chromium sessions (requested ${engine})`);
     }
 
-    if (filter?.statusCodes && filter.statusCodes.length > 0) {
-      requests = requests.filter((r) =>
-        r.response && filter.statusCodes!.includes(r.response.status)
-      );
+    let launching = this.launching.get(engine);
+    if (!launching) {
+      launching = config.cdpEndpoint
+        ? chromium.connectOverCDP(config.cdpEndpoint)
+        : browserTypes[engine].launch({ headless: config.headless });
+      this.launching.set(engine, launching);
     }
-
-    if (filter?.failed) {
-      requests = requests.filter((r) =>
-        !r.response || r.response.status >= 400
-      );
+    try {
+      const browser = await launching;
+      this.browsers.set(engine, browser);
+      // Crashed or closed browsers get relaunched on the next request
+      browser.on('disconnected', () => {
+        if (this.browsers.get(engine) === browser) {
+          this.browsers.delete(engine);
+        }
+      });
+      return browser;
+    } finally {
+      this.launching.delete(engine);
     }
-
-    return requests;
   }
 
-  clearNetworkRequests(): void {
-    this.networkRequests = [];
+  takeRecoveryNotices(): string[] {
+    return Array.from(this.sessions.values()).flatMap((session) => session.takeRecoveryNotices());
   }
 
-  storeScreenshot(name: string, buffer: Buffer): void {
-    this.screenshots.set(name, buffer);
+  /**
+   * Loads the merged config (defaults, project config file, env) once.
+   * Read lazily so env vars can be set before first use.
+   */
+  loadConfig(): Promise<LoadedConfig> {
+    if (!this.loaded) {
+      this.loaded = loadConfig();
+      // Let a fixed config file be picked up on the next call
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
   }
 
-  getScreenshot(name: string): Buffer | undefined {
-    return this.screenshots.get(name);
+  async getConfig(): Promise<SessionConfig> {
+    return (await this.loadConfig()).config;
   }
 
-  listScreenshots(): string[] {
-    return Array.from(this.screenshots.keys());
+  /**
+   * Source maps are shared by all sessions; they describe the app's bundles,
+   * not anything session-specific.
+   */
+  async getSourceMapResolver(): Promise<SourceMapResolver> {
+    if (!this.sourceMaps) {
+      const { config, file } = await this.loadConfig();
+      this.sourceMaps = new SourceMapResolver({
+        sourceMapDir: config.sourceMapDir,
+        rootDir: file ? dirname(file) : process.cwd(),
+        headers: config.extraHeaders,
+      });
+      // A navigation or reload may bring rebuilt bundles under the same urls
+      this.onCapture((event) => {
+        if (event.kind === 'network' && event.entry.resourceType === 'document') {
+          this.sourceMaps?.clear();
+        }
+      });
+    }
+    return this.sourceMaps;
   }
 
-  storeDomSnapshot(name: string, html: string): void {
-    this.domSnapshots.set(name, html);
+  getDevServer(): DevServer | null {
+    return this.devServer;
   }
 
-  getDomSnapshot(name: string): string | undefined {
-    return this.domSnapshots.get(name);
+  /**
+   * Spawns the dev server, replacing a previous one that has already exited.
+   * Only one dev server is managed at a time.
+   */
+  startDevServer(command: string, cwd: string): DevServer {
+    if (this.devServer?.isRunning()) {
+      throw new Error(`a dev server is already running (pid ${this.devServer.getStatus().pid})`);
+    }
+    this.devServer = new DevServer(command, cwd);
+    return this.devServer;
   }
 
-  listDomSnapshots(): string[] {
-    return Array.from(this.domSnapshots.keys());
+  async stopDevServer(): Promise<boolean> {
+    // The shell may have exited while the server it started lives on
+    if (!this.devServer?.isAlive()) {
+      return false;
+    }
+    await this.devServer.stop();
+    return true;
   }
 
   async close(): Promise<void> {
-    if (this.page) {
-      await this.page.close().catch(() => {});
-      this.page = null;
-    }
-    if (this.context) {
-      await this.context.close().catch(() => {});
-      this.context = null;
+    for (const session of this.sessions.values()) {
+      await session.close();
     }
-    if (this.browser) {
-      await this.browser.close().catch(() => {});
-      this.browser = null;
+    this.sessions.clear();
+    // For CDP connections this only disconnects; the user's browser keeps running
+    for (const browser of this.browsers.values()) {
+      await browser.close().catch(() => {});
     }
+    this.browsers.clear();
+    await this.stopDevServer();
   }
 }
 
@@ -0,0 +1,1289 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { Browser, BrowserContext, BrowserContextOptions, CDPSession, Page, Request, Response, Route } from 'playwright';
+import {
+  BrowserName,
+  ConsoleLogEntry,
+  NetworkRequestEntry,
+  ConsoleFilter,
+  NetworkFilter,
+  SessionConfig,
+  DeviceInfo,
+  EmulationSettings,
+  MediaSettings,
+  NetworkConditions,
+  HarReplay,
+  RouteMock,
+  RouteMockSettings,
+  SessionEvent,
+  SessionStats,
+  TabInfo,
+  CaptureEvent,
+  CaptureListener,
+} from './types.js';
+import { serializeConsoleArg } from './console-args.js';
+import { LruStore, RingBuffer } from './buffers.js';
+import { graphQLErrors, parseGraphQLRequest } from './graphql.js';
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 15);
+}
+
+// Playwright treats null as "stop emulating", so map unset features to null
+function toEmulateMedia(settings: MediaSettings) {
+  return {
+    colorScheme: settings.colorScheme ?? null,
+    reducedMotion: settings.reducedMotion ?? null,
+    forcedColors: settings.forcedColors ?? null,
+    media: settings.media ?? null,
+  };
+}
+
+const REJECTION_BINDING = '__claudeEyesReportRejection';
+
+// Subscriptions and slow streams would otherwise keep the read pending
+const GRAPHQL_BODY_TIMEOUT = 5000;
+
+// Missing storage state files already warned about, so each new session
+// doesn't repeat it
+const missingStorageStates: Set<string> = new Set();
+
+/**
+ * The configured storage state is usually written by save_storage_state on
+ * a first run, so a missing file starts the session logged out instead of
+ * failing every tool call.
+ */
+function initialStorageState(path: string | undefined): string | undefined {
+  if (!path || existsSync(path)) {
+    return path;
+  }
+  if (!missingStorageStates.has(path)) {
+    missingStorageStates.add(path);
+    console.error(`warning: storage state file ${path} not found, starting without it`);
+  }
+  return undefined;
+}
+
+interface RejectionReport {
+  name?: string;
+  message: string;
+  stack?: string;
+}
+
+// Where each context's rejection reports go. A context attached over CDP
+// outlives the session using it, so the binding and init script are
+// installed once and reports follow whichever session attached last.
+const rejectionHandlers: WeakMap<BrowserContext, (page: Page, report: RejectionReport) => void> = new WeakMap();
+
+// Runs in the page. Playwright's pageerror only reliably covers thrown
+// exceptions, so unhandled rejections are reported through a binding and
+// marked handled to keep engines that do surface them from logging twice.
+function reportUnhandledRejections(binding: string) {
+  window.addEventListener('unhandledrejection', (event) => {
+    const report = (window as unknown as Record<string, unknown>)[binding];
+    if (typeof report !== 'function') {
+      return;
+    }
+    event.preventDefault();
+    const reason = event.reason;
+    if (reason instanceof Error) {
+      report({ name: reason.name, message: reason.message, stack: reason.stack });
+      return;
+    }
+    let message: string;
+    try {
+      message = typeof reason === 'string' ? reason : JSON.stringify(reason) ?? String(reason);
+    } catch {
+      message = String(reason);
+    }
+    report({ message });
+  });
+}
+
+function megabytes(value: number): number {
+  return Math.round(value * 1024 * 1024);
+}
+
+// Rough sizes: string lengths plus a fixed overhead per entry are enough to
+// keep memory bounded without walking every object
+function consoleEntrySize(entry: ConsoleLogEntry): number {
+  let size = 200 + entry.text.length + (entry.stack?.length ?? 0);
+  for (const arg of entry.args ?? []) {
+    size += arg.value.length;
+  }
+  return size;
+}
+
+function networkEntrySize(entry: NetworkRequestEntry): number {
+  let size = 300 + entry.url.length + (entry.postData?.length ?? 0);
+  for (const [key, value] of Object.entries(entry.headers)) {
+    size += key.length + value.length;
+  }
+  size += entry.failure?.length ?? 0;
+  for (const operation of entry.graphql ?? []) {
+    size += (operation.operationName?.length ?? 0) + (operation.variables?.length ?? 0);
+  }
+  for (const message of entry.graphqlErrors ?? []) {
+    size += message.length;
+  }
+  if (entry.response) {
+    for (const [key, value] of Object.entries(entry.response.headers)) {
+      size += key.length + value.length;
+    }
+  }
+  return size;
+}
+
+function mockMatcher(mock: RouteMock): string | RegExp {
+  return mock.regex ? new RegExp(mock.url) : mock.url;
+}
+
+function guessContentType(body: string | undefined): string {
+  if (!body) {
+    return 'text/plain';
+  }
+  try {
+    JSON.parse(body);
+    return 'application/json';
+  } catch {
+    return /^\s*</.test(body) ? 'text/html' : 'text/plain';
+  }
+}
+
+export interface BrowserLauncher {
+  getBrowser(engine: BrowserName): Promise<Browser>;
+}
+
+/**
+ * One isolated browsing session: its own BrowserContext (cookies, storage),
+ * tabs, and capture buffers. Sessions share the underlying browser process.
+ */
+export class BrowserSession {
+  private context: BrowserContext | null = null;
+  private pages: Map<string, Page> = new Map();
+  private tabIds: WeakMap<Page, string> = new WeakMap();
+  private cdpSessions: WeakMap<Page, CDPSession> = new WeakMap();
+  private openers: Map<string, string> = new Map();
+  private activeTabId: string | null = null;
+  private tabCounter = 0;
+  private ownsContext = true;
+  private contextOptions: BrowserContextOptions;
+  private deviceName: string | null = null;
+  private media: MediaSettings = {};
+  private networkConditions: NetworkConditions | null = null;
+  private mocks: Map<string, RouteMock> = new Map();
+  private mockHandlers: Map<string, (route: Route) => void> = new Map();
+  private mockCounter = 0;
+  private harReplay: HarReplay | null = null;
+  // Requests offered to the HAR router, and those it passed on unanswered
+  private harCandidates: WeakSet<Request> = new WeakSet();
+  private harMisses: WeakSet<Request> = new WeakSet();
+
+  private closing = false;
+  private closingTabs: Set<string> = new Set();
+  private crashedTabs: Set<string> = new Set();
+  private lastUrl: string | null = null;
+  private recoveryReason: string | null = null;
+  private recoveryNotices: string[] = [];
+  private events: RingBuffer<SessionEvent>;
+  private captureListeners: Set<CaptureListener> = new Set();
+
+  private consoleLogs: RingBuffer<ConsoleLogEntry>;
+  private networkRequests: RingBuffer<NetworkRequestEntry>;
+  // Parallel requests to the same url are only told apart by their Request
+  private requestEntries: WeakMap<Request, NetworkRequestEntry> = new WeakMap();
+  // Bodies stay in the browser until asked for; entries evicted from the
+  // log release their Response with them
+  private responses: WeakMap<NetworkRequestEntry, Response> = new WeakMap();
+  // GraphQL error checks still reading their response body
+  private graphqlChecks: WeakMap<NetworkRequestEntry, Promise<void>> = new WeakMap();
+  private responseBodies: LruStore<Buffer>;
+  private screenshots: LruStore<Buffer>;
+  private domSnapshots: LruStore<string>;
+
+  readonly createdAt = Date.now();
+
+  constructor(
+    readonly name: string,
+    readonly engine: BrowserName,
+    private readonly config: SessionConfig,
+    private readonly launcher: BrowserLauncher,
+    private readonly attachToExisting = false
+  ) {
+    this.contextOptions = {
+      viewport: config.viewport,
+      storageState: initialStorageState(config.storageState),
+      extraHTTPHeaders: Object.keys(config.extraHeaders).length > 0 ? config.extraHeaders : undefined,
+    };
+
+    const { limits } = config;
+    this.consoleLogs = new RingBuffer(limits.console.entries, megabytes(limits.console.megabytes), consoleEntrySize);
+    this.networkRequests = new RingBuffer(limits.network.entries, megabytes(limits.network.megabytes), networkEntrySize);
+    this.screenshots = new LruStore(limits.screenshots.entries, megabytes(limits.screenshots.megabytes), (buffer) => buffer.length);
+    this.domSnapshots = new LruStore(limits.domSnapshots.entries, megabytes(limits.domSnapshots.megabytes), (html) => html.length);
+    this.responseBodies = new LruStore(limits.responseBodies.entries, megabytes(limits.responseBodies.megabytes), (body) => body.length);
+    this.events = new RingBuffer(limits.events.entries, megabytes(limits.events.megabytes), (event) => 100 + event.message.length);
+  }
+
+  async ensureBrowser(): Promise<Page> {
+    if (!this.context) {
+      await this.openContext();
+    }
+
+    const reason = this.recoveryReason;
+    const active = this.activeTabId ? this.pages.get(this.activeTabId) : undefined;
+
+    if (active && !this.crashedTabs.has(this.activeTabId!)) {
+      if (reason) {
+        await this.finishRecovery(reason, active);
+      }
+      return active;
+    }
+
+    if (active) {
+      // A crashed tab never comes back on its own; replace it
+      this.closingTabs.add(this.activeTabId!);
+      await active.close().catch(() => {});
+    }
+
+    const page = await this.context!.newPage();
+    this.activeTabId = this.trackPage(page);
+    if (reason || active) {
+      await this.finishRecovery(reason ?? 'tab crash', page);
+    }
+    return page;
+  }
+
+  /**
+   * Opens the session's context, or adopts `prepared` when the caller has
+   * already created one, and wires up capture and routing on it.
+   */
+  private async openContext(prepared?: BrowserContext): Promise<void> {
+    const browser = await this.launcher.getBrowser(this.engine);
+    const existing = !prepared && this.attachToExisting ? browser.contexts()[0] : undefined;
+
+    if (prepared) {
+      this.context = prepared;
+      this.ownsContext = true;
+      for (const page of prepared.pages()) {
+        this.activeTabId = this.trackPage(page);
+      }
+    } else if (existing) {
+      // Attached over CDP: reuse the user's profile and tabs as-is
+      this.context = existing;
+      this.ownsContext = false;
+      for (const page of existing.pages()) {
+        this.trackPage(page);
+      }
+      const visible = Array.from(this.pages.entries()).find(
+        ([, page]) => !/^(chrome|chrome-extension|devtools):/.test(page.url())
+      );
+      this.activeTabId = visible ? visible[0] : null;
+    } else {
+      this.context = await browser.newContext(this.contextOptions);
+      this.ownsContext = true;
+    }
+
+    const context = this.context;
+
+    const instrumented = rejectionHandlers.has(context);
+    rejectionHandlers.set(context, (page, report) => {
+      const entry: ConsoleLogEntry = {
+        id: generateId(),
+        type: 'pageerror',
+        text: `Unhandled rejection: ${report.name ? `${report.name}: ` : ''}${report.message}`,
+        timestamp: Date.now(),
+        tabId: page ? this.tabIds.get(page) : undefined,
+        stack: report.stack,
+      };
+      this.consoleLogs.push(entry);
+      this.emitCapture({ session: this.name, kind: 'console', entry });
+    });
+    if (!instrumented) {
+      await context.exposeBinding(REJECTION_BINDING, ({ page }, report: RejectionReport) => {
+        rejectionHandlers.get(context)?.(page, report);
+      });
+      await context.addInitScript(reportUnhandledRejections, REJECTION_BINDING);
+      // Init scripts only run on new documents, so tabs that were already
+      // open (attached over CDP, or the first tab of a recreated context)
+      // get the listener directly
+      for (const page of context.pages()) {
+        await page.evaluate(reportUnhandledRejections, REJECTION_BINDING).catch(() => {});
+      }
+    }
+
+    // Routes belong to the context, so they are re-registered on a new one
+    if (this.harReplay) {
+      await this.routeHarReplay(context, this.harReplay);
+    }
+    await this.routeMocks(context);
+
+    // Popups, target="_blank" links and window.open all surface here
+    context.on('page', (page) => this.trackPage(page));
+
+    context.on('close', () => {
+      if (this.closing || this.context !== context) {
+        return;
+      }
+      const disconnected = !context.browser()?.isConnected();
+      const reason = disconnected ? 'browser disconnect' : 'browser context close';
+      this.logEvent(
+        disconnected ? 'disconnected' : 'context-closed',
+        disconnected ? 'browser disconnected or crashed' : 'browser context closed unexpectedly'
+      );
+
+      this.context = null;
+      this.ownsContext = true;
+      this.pages.clear();
+      this.openers.clear();
+      this.activeTabId = null;
+      this.recoveryReason = reason;
+    });
+  }
+
+  private async finishRecovery(reason: string, page: Page): Promise<void> {
+    this.recoveryReason = null;
+
+    let restored = '';
+    if (this.lastUrl && page.url() !== this.lastUrl) {
+      try {
+        await page.goto(this.lastUrl);
+        restored = `, reopened ${this.lastUrl}`;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        restored = `, but reopening ${this.lastUrl} failed: ${message}`;
+      }
+    }
+
+    const message = `session "${this.name}" recovered from ${reason}${restored}`;
+    this.logEvent('recovered', message);
+    this.recoveryNotices.push(message);
+  }
+
+  private logEvent(type: SessionEvent['type'], message: string, tabId?: string): void {
+    this.events.push({ type, message, tabId, timestamp: Date.now() });
+  }
+
+  getEvents(): SessionEvent[] {
+    return this.events.toArray();
+  }
+
+  /**
+   * Returns recovery messages not yet shown to the caller, so the next tool
+   * response can mention that the browser was restarted under it.
+   */
+  takeRecoveryNotices(): string[] {
+    const notices = this.recoveryNotices;
+    this.recoveryNotices = [];
+    return notices;
+  }
+
+  private trackPage(page: Page): string {
+    const existing = this.tabIds.get(page);
+    if (existing) {
+      return existing;
+    }
+
+    const tabId = `tab-${++this.tabCounter}`;
+    this.tabIds.set(page, tabId);
+    this.pages.set(tabId, page);
+
+    page.setDefaultTimeout(this.config.timeout);
+    this.attachListeners(page, tabId);
+    if (Object.keys(this.media).length > 0) {
+      page.emulateMedia(toEmulateMedia(this.media)).catch(() => {});
+    }
+    if (this.networkConditions && !this.networkConditions.offline) {
+      this.throttle(page, this.networkConditions).catch(() => {});
+    }
+
+    page.opener().then((opener) => {
+      const openerId = opener ? this.tabIds.get(opener) : undefined;
+      if (openerId) {
+        this.openers.set(tabId, openerId);
+      }
+    }).catch(() => {});
+
+    page.on('framenavigated', (frame) => {
+      if (frame === page.mainFrame() && tabId === this.activeTabId && frame.url() !== 'about:blank') {
+        this.lastUrl = frame.url();
+      }
+    });
+
+    page.on('crash', () => {
+      this.crashedTabs.add(tabId);
+      this.logEvent('crash', `${tabId} crashed at ${page.url()}`, tabId);
+    });
+
+    page.on('close', () => {
+      const intentional = this.closing || this.closingTabs.delete(tabId);
+      if (!intentional && !this.crashedTabs.has(tabId)) {
+        this.logEvent('page-closed', `${tabId} closed by the page or browser`, tabId);
+        if (this.pages.size === 1) {
+          this.recoveryReason = 'last tab closing';
+        }
+      }
+      this.crashedTabs.delete(tabId);
+      this.pages.delete(tabId);
+      this.openers.delete(tabId);
+      if (this.activeTabId === tabId) {
+        // Fall back to the most recently opened tab that is still alive
+        const remaining = Array.from(this.pages.keys());
+        this.activeTabId = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+        if (this.activeTabId) {
+          this.lastUrl = this.pages.get(this.activeTabId)!.url();
+        }
+      }
+    });
+
+    return tabId;
+  }
+
+  private attachListeners(page: Page, tabId: string): void {
+    page.on('console', (msg) => {
+      const type = msg.type() as ConsoleLogEntry['type'];
+      const location = msg.location();
+
+      const entry: ConsoleLogEntry = {
+        id: generateId(),
+        type,
+        text: msg.text(),
+        timestamp: Date.now(),
+        tabId,
+        location: location.url ? {
+          url: location.url,
+          lineNumber: location.lineNumber,
+          columnNumber: location.columnNumber,
+        } : undefined,
+      };
+      this.consoleLogs.push(entry);
+
+      // Args are serialized in the page after the fact; text stays as the
+      // fallback. Handles are released so long sessions don't pin objects.
+      const handles = msg.args();
+      Promise.all(handles.map((arg) => serializeConsoleArg(arg)))
+        .then((args) => {
+          entry.args = args;
+          this.consoleLogs.resize(entry);
+        })
+        .catch(() => {})
+        .finally(() => {
+          for (const handle of handles) {
+            handle.dispose().catch(() => {});
+          }
+          // Announced once args are in, so subscribers read the full entry
+          this.emitCapture({ session: this.name, kind: 'console', entry });
+        });
+    });
+
+    page.on('pageerror', (error) => {
+      const entry: ConsoleLogEntry = {
+        id: generateId(),
+        type: 'pageerror',
+        text: `Uncaught ${error.name}: ${error.message}`,
+        timestamp: Date.now(),
+        tabId,
+        stack: error.stack,
+      };
+      this.consoleLogs.push(entry);
+      this.emitCapture({ session: this.name, kind: 'console', entry });
+    });
+
+    page.on('request', (request) => {
+      const entry: NetworkRequestEntry = {
+        id: generateId(),
+        url: request.url(),
+        method: request.method(),
+        headers: request.headers(),
+        postData: request.postData() ?? undefined,
+        resourceType: request.resourceType(),
+        timestamp: Date.now(),
+        tabId,
+        networkProfile: this.networkConditions?.name,
+        graphql: parseGraphQLRequest(request.method(), request.url(), request.headers(), request.postData() ?? undefined),
+      };
+
+      const previous = request.redirectedFrom();
+      const from = previous ? this.requestEntries.get(previous) : undefined;
+      if (from) {
+        entry.redirectedFrom = from.id;
+        from.redirectedTo = entry.id;
+      }
+
+      this.requestEntries.set(request, entry);
+      this.networkRequests.push(entry);
+      this.emitCapture({ session: this.name, kind: 'network', entry });
+    });
+
+    page.on('response', (response) => {
+      const request = response.request();
+      const entry = this.requestEntries.get(request);
+
+      if (entry) {
+        entry.duration = Date.now() - entry.timestamp;
+        if (this.harCandidates.has(request) && !this.harMisses.has(request)) {
+          entry.replayed = true;
+        }
+        entry.response = {
+          status: response.status(),
+          statusText: response.statusText(),
+          headers: response.headers(),
+        };
+        this.responses.set(entry, response);
+        this.networkRequests.resize(entry);
+        this.emitCapture({ session: this.name, kind: 'network', entry });
+        if (entry.graphql) {
+          // GraphQL reports failures in the body, so read it while it's there
+          const check = this.checkGraphQLErrors(entry, response).finally(() => this.graphqlChecks.delete(entry));
+          this.graphqlChecks.set(entry, check);
+        }
+      }
+    });
+
+    // Duration then covers the body download, not just the headers
+    page.on('requestfinished', (request) => {
+      const entry = this.requestEntries.get(request);
+      if (entry) {
+        entry.duration = Date.now() - entry.timestamp;
+      }
+    });
+
+    page.on('requestfailed', (request) => {
+      const entry = this.requestEntries.get(request);
+      if (entry) {
+        entry.duration = Date.now() - entry.timestamp;
+        entry.failure = request.failure()?.errorText ?? 'unknown error';
+        this.networkRequests.resize(entry);
+        this.emitCapture({ session: this.name, kind: 'network', entry });
+      }
+    });
+  }
+
+  getPage(): Page | null {
+    if (!this.activeTabId) {
+      return null;
+    }
+    return this.pages.get(this.activeTabId) ?? null;
+  }
+
+  /**
+   * Replaces the BrowserContext with one built from updated options, for
+   * settings Playwright only applies at context creation. The active tab's
+   * url is reopened in the new context; other tabs are closed. Captured
+   * logs, requests and snapshots are kept. The new context is created
+   * before the old one is closed, so options the browser rejects leave the
+   * session as it was.
+   */
+  async recreateContext(options: BrowserContextOptions): Promise<Page> {
+    if (!this.context && this.attachToExisting) {
+      // Attach first; ownsContext only says whose context it is afterwards
+      await this.ensureBrowser();
+    }
+    if (!this.ownsContext) {
+      throw new Error(
+        `session "${this.name}" is attached to an existing browser context that claude-eyes cannot recreate\nsuggestion: use create_session to get a fresh context on the same browser`
+      );
+    }
+
+    const url = this.getPage()?.url();
+    const contextOptions = { ...this.contextOptions, ...options };
+
+    if (this.context && !options.storageState) {
+      // Carry cookies and localStorage over unless a new state is being loaded
+      const state = await this.context.storageState().catch(() => undefined);
+      contextOptions.storageState = state ?? this.contextOptions.storageState;
+    }
+
+    const browser = await this.launcher.getBrowser(this.engine);
+    let context: BrowserContext | null = null;
+    try {
+      context = await browser.newContext(contextOptions);
+      // Some options (timezoneId on chromium) are only checked per page
+      await context.newPage();
+    } catch (err) {
+      await context?.close().catch(() => {});
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(
+        `${this.engine} rejected the new context options, the previous settings are still active: ${message}\nsuggestion: check the option values, or use create_session with another engine`
+      );
+    }
+
+    this.contextOptions = contextOptions;
+    if (this.context) {
+      await this.close();
+    }
+    await this.openContext(context);
+
+    const page = await this.ensureBrowser();
+    if (url && url !== 'about:blank') {
+      await page.goto(url);
+    }
+    return page;
+  }
+
+  async setDevice(name: string | null, options: BrowserContextOptions): Promise<Page> {
+    // Checked up front so the message names the setting and a way out
+    if (options.isMobile && this.engine === 'firefox') {
+      throw new Error(
+        `isMobile${name ? ` (set by device "${name}")` : ''} is not supported on firefox (session "${this.name}")\nsuggestion: pass isMobile: false, or use create_session with browser "chromium" or "webkit" for mobile emulation`
+      );
+    }
+
+    if (!this.context && this.attachToExisting) {
+      await this.ensureBrowser();
+    }
+
+    // A plain resize can be applied in place without losing page state
+    const viewportOnly = Object.keys(options).every((key) => key === 'viewport');
+    if (viewportOnly && this.context && options.viewport) {
+      this.contextOptions = { ...this.contextOptions, viewport: options.viewport };
+      this.deviceName = name;
+      for (const page of this.pages.values()) {
+        await page.setViewportSize(options.viewport);
+      }
+      return this.ensureBrowser();
+    }
+
+    const page = await this.recreateContext(options);
+    this.deviceName = name;
+    return page;
+  }
+
+  /**
+   * Writes cookies and localStorage for every origin in the context to a
+   * Playwright storageState JSON file.
+   */
+  async saveStorageState(path: string): Promise<{ cookies: number; origins: number }> {
+    await this.ensureBrowser();
+    const state = await this.context!.storageState({ path });
+    return { cookies: state.cookies.length, origins: state.origins.length };
+  }
+
+  /**
+   * Storage state can only be seeded when a context is created, so loading
+   * one recreates the context and reopens the current url.
+   */
+  async loadStorageState(path: string): Promise<Page> {
+    return this.recreateContext({ storageState: path });
+  }
+
+  /**
+   * Applies locale, timezone, geolocation, permission and header overrides.
+   * Locale and timezone are fixed at context creation, so changing either
+   * recreates the context; the rest are applied to the live context.
+   */
+  async setEmulation(settings: EmulationSettings): Promise<Page> {
+    const options: BrowserContextOptions = {};
+    if ('locale' in settings) options.locale = settings.locale;
+    if ('timezoneId' in settings) options.timezoneId = settings.timezoneId;
+    if ('geolocation' in settings) options.geolocation = settings.geolocation;
+    if ('permissions' in settings) options.permissions = settings.permissions;
+    if ('extraHTTPHeaders' in settings) {
+      options.extraHTTPHeaders = { ...this.config.extraHeaders, ...settings.extraHTTPHeaders };
+    }
+
+    const needsRecreate =
+      ('locale' in options && options.locale !== this.contextOptions.locale) ||
+      ('timezoneId' in options && options.timezoneId !== this.contextOptions.timezoneId);
+
+    if (needsRecreate || (!this.context && !this.attachToExisting)) {
+      return this.recreateContext(options);
+    }
+
+    await this.ensureBrowser();
+    this.contextOptions = { ...this.contextOptions, ...options };
+    const context = this.context!;
+    if ('geolocation' in options) {
+      await context.setGeolocation(options.geolocation ?? null);
+    }
+    if ('permissions' in options) {
+      await context.clearPermissions();
+      if (options.permissions && options.permissions.length > 0) {
+        await context.grantPermissions(options.permissions);
+      }
+    }
+    if ('extraHTTPHeaders' in options) {
+      await context.setExtraHTTPHeaders(options.extraHTTPHeaders ?? {});
+    }
+    return this.ensureBrowser();
+  }
+
+  getEmulation(): EmulationSettings {
+    const headers = { ...this.contextOptions.extraHTTPHeaders };
+    for (const key of Object.keys(this.config.extraHeaders)) {
+      if (headers[key] === this.config.extraHeaders[key]) {
+        delete headers[key];
+      }
+    }
+    return {
+      locale: this.contextOptions.locale,
+      timezoneId: this.contextOptions.timezoneId,
+      geolocation: this.contextOptions.geolocation,
+      permissions: this.contextOptions.permissions,
+      extraHTTPHeaders: Object.keys(headers).length > 0 ? headers : undefined,
+    };
+  }
+
+  /**
+   * Emulates css media features on every tab in the session, including tabs
+   * opened later. Unset features fall back to the browser default.
+   */
+  async setMedia(settings: MediaSettings): Promise<Page> {
+    this.media = { ...this.media, ...settings };
+    for (const key of Object.keys(this.media) as (keyof MediaSettings)[]) {
+      if (this.media[key] === undefined) {
+        delete this.media[key];
+      }
+    }
+
+    const active = await this.ensureBrowser();
+    for (const page of this.pages.values()) {
+      await page.emulateMedia(toEmulateMedia(this.media));
+    }
+    return active;
+  }
+
+  getMedia(): MediaSettings {
+    return { ...this.media };
+  }
+
+  /**
+   * Runs `fn` with a temporary media override on one page, then restores
+   * the session's media settings.
+   */
+  async withMedia<T>(page: Page, override: MediaSettings, fn: () => Promise<T>): Promise<T> {
+    await page.emulateMedia(toEmulateMedia({ ...this.media, ...override }));
+    try {
+      return await fn();
+    } finally {
+      await page.emulateMedia(toEmulateMedia(this.media)).catch(() => {});
+    }
+  }
+
+  /**
+   * Throttles or cuts the network for every tab. Offline works on all
+   * engines via setOffline; latency and throughput limits need the DevTools
+   * protocol and therefore chromium. Pass null to restore full speed.
+   */
+  async setNetworkConditions(conditions: NetworkConditions | null): Promise<void> {
+    const page = await this.ensureBrowser();
+    const throttled = conditions !== null && !conditions.offline;
+
+    if (throttled) {
+      // Fail before changing anything on engines without CDP
+      await this.newCDPSession(page, 'network throttling').then((cdp) => cdp.detach());
+    }
+
+    const previous = this.networkConditions;
+    this.networkConditions = conditions;
+    this.contextOptions.offline = conditions?.offline ?? false;
+    await this.context!.setOffline(conditions?.offline ?? false);
+
+    if (throttled || (previous && !previous.offline)) {
+      const applied = throttled ? conditions : null;
+      for (const tab of this.pages.values()) {
+        await this.throttle(tab, applied);
+      }
+    }
+  }
+
+  getNetworkConditions(): NetworkConditions | null {
+    return this.networkConditions;
+  }
+
+  private async throttle(page: Page, conditions: NetworkConditions | null): Promise<void> {
+    let cdp = this.cdpSessions.get(page);
+    if (!cdp) {
+      cdp = await this.newCDPSession(page, 'network throttling');
+      await cdp.send('Network.enable');
+      this.cdpSessions.set(page, cdp);
+    }
+    await cdp.send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: conditions?.latency ?? 0,
+      downloadThroughput: conditions?.downloadThroughput ?? -1,
+      uploadThroughput: conditions?.uploadThroughput ?? -1,
+    });
+  }
+
+  /**
+   * Opens a raw DevTools protocol session for features Playwright only
+   * exposes on Chromium. Other engines get an error that names the engine.
+   */
+  private async newCDPSession(page: Page, feature: string): Promise<CDPSession> {
+    if (this.engine !== 'chromium') {
+      throw new Error(
+        `${feature} is only supported on chromium (session "${this.name}" is running ${this.engine})`
+      );
+    }
+    return this.context!.newCDPSession(page);
+  }
+
+  /**
+   * Answers matching requests in every tab with a canned response, a delay
+   * or a network error. Newer mocks take precedence; a mock whose method
+   * doesn't match or whose hit limit is used up falls through to older ones
+   * and then to the network.
+   */
+  async addMock(settings: RouteMockSettings): Promise<RouteMock> {
+    if (settings.regex) {
+      // Surface a bad pattern now rather than on the first request
+      new RegExp(settings.url);
+    }
+    if (settings.bodyFile) {
+      const bodyFile = resolve(settings.bodyFile);
+      if (!existsSync(bodyFile)) {
+        throw new Error(`body file not found: ${bodyFile}`);
+      }
+      settings = { ...settings, bodyFile };
+    }
+
+    const mock: RouteMock = {
+      ...settings,
+      method: settings.method?.toUpperCase(),
+      id: `mock-${++this.mockCounter}`,
+      hits: 0,
+      createdAt: Date.now(),
+    };
+    const handler = (route: Route) => {
+      this.handleMock(mock, route).catch(() => {});
+    };
+    this.mocks.set(mock.id, mock);
+    this.mockHandlers.set(mock.id, handler);
+
+    if (this.context) {
+      await this.context.route(mockMatcher(mock), handler);
+    }
+    return mock;
+  }
+
+  /**
+   * Removes one mock, or all of them when no id is given. Returns how many
+   * were removed.
+   */
+  async removeMock(id?: string): Promise<number> {
+    const ids = id ? (this.mocks.has(id) ? [id] : []) : Array.from(this.mocks.keys());
+    for (const mockId of ids) {
+      const mock = this.mocks.get(mockId)!;
+      const handler = this.mockHandlers.get(mockId)!;
+      this.mocks.delete(mockId);
+      this.mockHandlers.delete(mockId);
+      await this.context?.unroute(mockMatcher(mock), handler).catch(() => {});
+    }
+    return ids.length;
+  }
+
+  getMocks(): RouteMock[] {
+    return Array.from(this.mocks.values());
+  }
+
+  /**
+   * Serves matching requests from a HAR file, replacing any previous
+   * replay. Mocks added afterwards still take precedence.
+   */
+  async replayHar(replay: HarReplay): Promise<void> {
+    if (replay.regex && replay.url) {
+      new RegExp(replay.url);
+    }
+    if (!existsSync(replay.path)) {
+      throw new Error(`HAR file not found: ${replay.path}`);
+    }
+
+    await this.stopHarReplay();
+    if (this.context) {
+      await this.routeHarReplay(this.context, replay);
+      await this.routeMocks(this.context);
+    }
+    this.harReplay = replay;
+  }
+
+  /**
+   * Playwright can only drop HAR routes together with every other route, so
+   * the mocks are registered again afterwards.
+   */
+  async stopHarReplay(): Promise<boolean> {
+    if (!this.harReplay) {
+      return false;
+    }
+    this.harReplay = null;
+    if (this.context) {
+      await this.context.unrouteAll({ behavior: 'ignoreErrors' });
+      await this.routeMocks(this.context);
+    }
+    return true;
+  }
+
+  getHarReplay(): HarReplay | null {
+    return this.harReplay;
+  }
+
+  /**
+   * (Re-)registers every mock on top of the HAR routes. Playwright runs the
+   * newest route first, so this keeps mocks ahead of replayed responses.
+   */
+  private async routeMocks(context: BrowserContext): Promise<void> {
+    for (const mock of this.mocks.values()) {
+      const handler = this.mockHandlers.get(mock.id)!;
+      await context.unroute(mockMatcher(mock), handler);
+      await context.route(mockMatcher(mock), handler);
+    }
+  }
+
+  private async routeHarReplay(context: BrowserContext, replay: HarReplay): Promise<void> {
+    const url = replay.url ? (replay.regex ? new RegExp(replay.url) : replay.url) : '**/*';
+
+    // Routes run newest first: the candidate marker, then the HAR router,
+    // then the miss marker for whatever the router falls back on
+    await context.route(url, (route) => {
+      this.harMisses.add(route.request());
+      route.fallback().catch(() => {});
+    });
+    await context.routeFromHAR(replay.path, {
+      url,
+      notFound: replay.mode === 'strict' ? 'abort' : 'fallback',
+    });
+    await context.route(url, (route) => {
+      this.harCandidates.add(route.request());
+      route.fallback().catch(() => {});
+    });
+  }
+
+  private async handleMock(mock: RouteMock, route: Route): Promise<void> {
+    const request = route.request();
+    const exhausted = mock.times !== undefined && mock.hits >= mock.times;
+    if (!this.mocks.has(mock.id) || exhausted || (mock.method && request.method() !== mock.method)) {
+      await route.fallback();
+      return;
+    }
+
+    mock.hits++;
+    // The request event fires before route handlers, so the entry exists
+    const entry = this.requestEntries.get(request);
+    if (entry) {
+      entry.mocked = mock.id;
+    }
+
+    if (mock.delay) {
+      await new Promise((resolve) => setTimeout(resolve, mock.delay));
+    }
+    if (mock.abort) {
+      await route.abort(mock.abort);
+      return;
+    }
+
+    const headers = { ...mock.headers };
+    const hasContentType = Object.keys(headers).some((key) => key.toLowerCase() === 'content-type');
+    await route.fulfill({
+      status: mock.status ?? 200,
+      headers,
+      // Playwright picks the content type from the file extension
+      path: mock.bodyFile,
+      body: mock.bodyFile ? undefined : mock.body ?? '',
+      contentType: hasContentType || mock.bodyFile ? undefined : guessContentType(mock.body),
+    });
+  }
+
+  getDevice(): DeviceInfo {
+    return {
+      name: this.deviceName ?? undefined,
+      viewport: this.contextOptions.viewport ?? null,
+      deviceScaleFactor: this.contextOptions.deviceScaleFactor ?? 1,
+      isMobile: this.contextOptions.isMobile ?? false,
+      hasTouch: this.contextOptions.hasTouch ?? false,
+    };
+  }
+
+  getActiveTabId(): string | null {
+    return this.activeTabId;
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    const tabs: TabInfo[] = [];
+    for (const [id, page] of this.pages) {
+      tabs.push({
+        id,
+        url: page.url(),
+        title: await page.title().catch(() => ''),
+        active: id === this.activeTabId,
+        openerId: this.openers.get(id),
+      });
+    }
+    return tabs;
+  }
+
+  async newTab(): Promise<{ id: string; page: Page }> {
+    await this.ensureBrowser();
+    const page = await this.context!.newPage();
+    const id = this.trackPage(page);
+    this.activeTabId = id;
+    return { id, page };
+  }
+
+  switchTab(id: string): Page | null {
+    const page = this.pages.get(id);
+    if (!page) {
+      return null;
+    }
+    this.activeTabId = id;
+    this.lastUrl = page.url();
+    return page;
+  }
+
+  async closeTab(id: string): Promise<boolean> {
+    const page = this.pages.get(id);
+    if (!page) {
+      return false;
+    }
+    this.closingTabs.add(id);
+    await page.close();
+    return true;
+  }
+
+  /**
+   * Registers a listener for newly captured console entries and requests.
+   * Returns a function that removes it.
+   */
+  onCapture(listener: CaptureListener): () => void {
+    this.captureListeners.add(listener);
+    return () => this.captureListeners.delete(listener);
+  }
+
+  private emitCapture(event: CaptureEvent): void {
+    for (const listener of this.captureListeners) {
+      try {
+        listener(event);
+      } catch {
+        // A broken subscriber must not break capture
+      }
+    }
+  }
+
+  getConsoleLogs(filter?: ConsoleFilter): ConsoleLogEntry[] {
+    let logs = this.consoleLogs.toArray();
+
+    if (filter?.types && filter.types.length > 0) {
+      logs = logs.filter((log) => filter.types!.includes(log.type));
+    }
+
+    if (filter?.since) {
+      logs = logs.filter((log) => log.timestamp >= filter.since!);
+    }
+
+    if (filter?.tabId) {
+      logs = logs.filter((log) => log.tabId === filter.tabId);
+    }
+
+    if (filter?.search) {
+      const searchLower = filter.search.toLowerCase();
+      logs = logs.filter(
+        (log) =>
+          log.text.toLowerCase().includes(searchLower) ||
+          !!log.args?.some((arg) => arg.value.toLowerCase().includes(searchLower))
+      );
+    }
+
+    return logs;
+  }
+
+  getConsoleLog(id: string): ConsoleLogEntry | undefined {
+    return this.consoleLogs.find((log) => log.id === id);
+  }
+
+  clearConsoleLogs(): void {
+    this.consoleLogs.clear();
+  }
+
+  getNetworkRequests(filter?: NetworkFilter): NetworkRequestEntry[] {
+    let requests = this.networkRequests.toArray();
+
+    if (filter?.urlPattern) {
+      const regex = new RegExp(filter.urlPattern);
+      requests = requests.filter((r) => regex.test(r.url));
+    }
+
+    if (filter?.methods && filter.methods.length > 0) {
+      const methodsUpper = filter.methods.map((m) => m.toUpperCase());
+      requests = requests.filter((r) => methodsUpper.includes(r.method));
+    }
+
+    if (filter?.tabId) {
+      requests = requests.filter((r) => r.tabId === filter.tabId);
+    }
+
+    if (filter?.statusCodes && filter.statusCodes.length > 0) {
+      requests = requests.filter((r) =>
+        r.response && filter.statusCodes!.includes(r.response.status)
+      );
+    }
+
+    if (filter?.operationName) {
+      requests = requests.filter((r) =>
+        !!r.graphql?.some((operation) => operation.operationName === filter.operationName)
+      );
+    }
+
+    if (filter?.failed) {
+      requests = requests.filter((r) =>
+        !!r.failure || !!r.graphqlErrors || (!!r.response && r.response.status >= 400)
+      );
+    }
+
+    return requests;
+  }
+
+  /**
+   * Reads a GraphQL response body once, outside the body cache, and keeps
+   * only its error messages. Listeners are notified again when there are
+   * errors.
+   */
+  private async checkGraphQLErrors(entry: NetworkRequestEntry, response: Response): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('timed out reading the response body')), GRAPHQL_BODY_TIMEOUT);
+    });
+    try {
+      const body = await Promise.race([response.body(), timeout]);
+      const errors = graphQLErrors(body.toString('utf-8'));
+      if (errors.length > 0) {
+        entry.graphqlErrors = errors;
+        this.networkRequests.resize(entry);
+        this.emitCapture({ session: this.name, kind: 'network', entry });
+      }
+    } catch {
+      // Body gone or still streaming; the status is all there is to go on
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Waits for the GraphQL error checks of `entries` that are still reading the
+   * body, so a response that just arrived is judged on its `errors` array.
+   * Each check gives up after GRAPHQL_BODY_TIMEOUT.
+   */
+  async settleGraphQLChecks(entries: NetworkRequestEntry[]): Promise<void> {
+    await Promise.all(entries.map((entry) => this.graphqlChecks.get(entry)));
+  }
+
+  getNetworkRequest(id: string): NetworkRequestEntry | undefined {
+    return this.networkRequests.find((r) => r.id === id);
+  }
+
+  /**
+   * Reads a response body from the browser on first use and keeps it in a
+   * size-capped cache. The browser only holds bodies for a while, typically
+   * until the page navigates, so this fails for old or redirect responses.
+   */
+  async getResponseBody(entry: NetworkRequestEntry): Promise<Buffer> {
+    const cached = this.responseBodies.get(entry.id);
+    if (cached) {
+      return cached;
+    }
+
+    const body = await this.readResponseBody(entry);
+    this.responseBodies.set(entry.id, body);
+    return body;
+  }
+
+  /** Reads a response body straight from the browser without touching the body cache. */
+  async readResponseBody(entry: NetworkRequestEntry): Promise<Buffer> {
+    const response = this.responses.get(entry);
+    if (!response) {
+      throw new Error(`no response captured for ${entry.method} ${entry.url}`);
+    }
+
+    let body: Buffer;
+    try {
+      body = await response.body();
+    } catch (err) {
+      const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+      throw new Error(`response body for ${entry.url} is no longer available from the browser (${message})`);
+    }
+    return body;
+  }
+
+  clearNetworkRequests(): void {
+    this.networkRequests.clear();
+  }
+
+  /**
+   * Returns the names of older screenshots evicted to stay within limits.
+   */
+  storeScreenshot(name: string, buffer: Buffer): string[] {
+    return this.screenshots.set(name, buffer);
+  }
+
+  getScreenshot(name: string): Buffer | undefined {
+    return this.screenshots.get(name);
+  }
+
+  listScreenshots(): string[] {
+    return this.screenshots.keys();
+  }
+
+  storeDomSnapshot(name: string, html: string): string[] {
+    return this.domSnapshots.set(name, html);
+  }
+
+  getDomSnapshot(name: string): string | undefined {
+    return this.domSnapshots.get(name);
+  }
+
+  listDomSnapshots(): string[] {
+    return this.domSnapshots.keys();
+  }
+
+  wasEvicted(kind: 'screenshot' | 'domSnapshot', name: string): boolean {
+    return (kind === 'screenshot' ? this.screenshots : this.domSnapshots).wasEvicted(name);
+  }
+
+  getStats(): SessionStats {
+    return {
+      console: this.consoleLogs.stats(),
+      network: this.networkRequests.stats(),
+      screenshots: this.screenshots.stats(),
+      domSnapshots: this.domSnapshots.stats(),
+      responseBodies: this.responseBodies.stats(),
+      events: this.events.stats(),
+    };
+  }
+
+  isStarted(): boolean {
+    return this.context !== null;
+  }
+
+  isAttached(): boolean {
+    return this.context !== null && !this.ownsContext;
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    try {
+      if (this.ownsContext) {
+        for (const page of this.pages.values()) {
+          await page.close().catch(() => {});
+        }
+        await this.context?.close().catch(() => {});
+      } else {
+        // Leave the user's tabs open; just stop listening to them
+        for (const page of this.pages.values()) {
+          page.removeAllListeners();
+        }
+        await this.context?.unrouteAll({ behavior: 'ignoreErrors' }).catch(() => {});
+        this.context?.removeAllListeners();
+      }
+    } finally {
+      this.closing = false;
+    }
+
+    this.pages.clear();
+    // Tabs of an attached context outlive the session and are adopted again
+    this.tabIds = new WeakMap();
+    this.openers.clear();
+    this.crashedTabs.clear();
+    this.closingTabs.clear();
+    this.activeTabId = null;
+    this.context = null;
+    this.ownsContext = true;
+  }
+}
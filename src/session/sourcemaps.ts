@@ -0,0 +1,196 @@
+import { TraceMap, originalPositionFor, sourceContentFor } from '@jridgewell/trace-mapping';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, isAbsolute, join, resolve, sep } from 'path';
+import { OriginalLocation } from './types.js';
+
+const FETCH_TIMEOUT = 5000;
+const MAX_CACHED_MAPS = 50;
+const SOURCE_MAPPING_URL = /[#@]\s*sourceMappingURL=(\S+)\s*$/m;
+
+export interface SourceMapOptions {
+  // Local build output to look for <bundle>.map files in
+  sourceMapDir?: string;
+  // Where original sources are read from when a map has no sourcesContent
+  rootDir: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Maps bundled script positions back to original sources. Maps are found
+ * through the script's sourceMappingURL (fetched from the dev server) or,
+ * failing that, next to the bundle's name in a local build directory.
+ */
+export class SourceMapResolver {
+  private maps: Map<string, Promise<TraceMap | null>> = new Map();
+
+  constructor(private options: SourceMapOptions) {}
+
+  /**
+   * `line` is 1-based and `column` 0-based, matching stack traces once the
+   * caller has adjusted for the 1-based column there.
+   */
+  async resolve(url: string, line: number, column: number, context = 2): Promise<OriginalLocation | null> {
+    const map = await this.getMap(url);
+    if (!map) {
+      return null;
+    }
+
+    const position = originalPositionFor(map, { line, column });
+    if (position.source === null || position.line === null) {
+      return null;
+    }
+
+    const location: OriginalLocation = {
+      source: displayPath(position.source, url),
+      line: position.line,
+      column: (position.column ?? 0) + 1,
+      name: position.name ?? undefined,
+    };
+
+    const content = sourceContentFor(map, position.source) ?? (await this.readLocalSource(location.source));
+    if (content) {
+      location.snippet = snippet(content, position.line, context);
+    }
+    return location;
+  }
+
+  /**
+   * Forgets every loaded map, for when the page may have loaded rebuilt
+   * bundles under the same urls.
+   */
+  clear(): void {
+    this.maps.clear();
+  }
+
+  /**
+   * Only maps that loaded are kept; a failure is retried on the next lookup
+   * since the dev server may just not have finished building.
+   */
+  private getMap(url: string): Promise<TraceMap | null> {
+    const cached = this.maps.get(url);
+    if (cached) {
+      return cached;
+    }
+
+    const map = this.loadMap(url).catch(() => null);
+    this.maps.set(url, map);
+    if (this.maps.size > MAX_CACHED_MAPS) {
+      this.maps.delete(this.maps.keys().next().value!);
+    }
+    map.then((loaded) => {
+      if (!loaded && this.maps.get(url) === map) {
+        this.maps.delete(url);
+      }
+    });
+    return map;
+  }
+
+  private async loadMap(url: string): Promise<TraceMap | null> {
+    if (!/^https?:/.test(url)) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(url, {
+        headers: this.options.headers,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+      });
+      if (response.ok) {
+        const header = response.headers.get('sourcemap') ?? response.headers.get('x-sourcemap');
+        const match = SOURCE_MAPPING_URL.exec(await response.text());
+        const mapUrl = header ?? match?.[1];
+        if (mapUrl) {
+          const raw = await this.fetchMapSource(new URL(mapUrl, url).href);
+          if (raw) {
+            return new TraceMap(raw, new URL(mapUrl, url).href);
+          }
+        }
+      }
+    } catch {
+      // Dev server unreachable; fall through to the local build dir
+    }
+
+    const local = this.findLocalMap(url);
+    if (local) {
+      return new TraceMap(await readFile(local, 'utf-8'), url);
+    }
+    return null;
+  }
+
+  private async fetchMapSource(mapUrl: string): Promise<string | null> {
+    if (mapUrl.startsWith('data:')) {
+      const [meta, data] = mapUrl.slice('data:'.length).split(',', 2);
+      return meta.endsWith(';base64')
+        ? Buffer.from(data, 'base64').toString('utf-8')
+        : decodeURIComponent(data);
+    }
+    const response = await fetch(mapUrl, {
+      headers: this.options.headers,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT),
+    });
+    return response.ok ? response.text() : null;
+  }
+
+  private findLocalMap(url: string): string | undefined {
+    const dir = this.options.sourceMapDir;
+    if (!dir) {
+      return undefined;
+    }
+    const pathname = new URL(url).pathname;
+    const candidates = [join(dir, `${pathname}.map`), join(dir, `${basename(pathname)}.map`)];
+    return candidates.find((candidate) => existsSync(candidate));
+  }
+
+  /**
+   * `source` comes from a map the page served, so only files inside the
+   * project are read; "../../etc/passwd" or an absolute path must not end
+   * up in a snippet.
+   */
+  private async readLocalSource(source: string): Promise<string | null> {
+    if (isAbsolute(source) || source.startsWith('file:') || source.startsWith('~')) {
+      return null;
+    }
+    const root = resolve(this.options.rootDir);
+    const path = resolve(root, source);
+    if (!path.startsWith(root + sep)) {
+      return null;
+    }
+    return existsSync(path) ? readFile(path, 'utf-8').catch(() => null) : null;
+  }
+}
+
+/**
+ * Turns the many shapes bundlers emit for `sources` into a project-relative
+ * path: webpack://app/./src/x.ts, http://localhost:5173/src/x.ts, ../src/x.ts.
+ */
+function displayPath(source: string, scriptUrl: string): string {
+  const webpack = /^webpack:\/\/[^/]*\/(.*)$/.exec(source);
+  if (webpack) {
+    return webpack[1].replace(/^\.\//, '');
+  }
+  if (source.startsWith('file://')) {
+    return new URL(source).pathname;
+  }
+  try {
+    const resolved = new URL(source, scriptUrl);
+    if (resolved.origin === new URL(scriptUrl).origin) {
+      return decodeURIComponent(resolved.pathname).replace(/^\//, '');
+    }
+    return resolved.href;
+  } catch {
+    return source;
+  }
+}
+
+function snippet(content: string, line: number, context: number): string[] {
+  const lines = content.split(/\r?\n/);
+  const start = Math.max(1, line - context);
+  const end = Math.min(lines.length, line + context);
+  const width = String(end).length;
+  const out: string[] = [];
+  for (let n = start; n <= end; n++) {
+    out.push(`${n === line ? '>' : ' '} ${String(n).padStart(width)} | ${lines[n - 1]}`);
+  }
+  return out;
+}
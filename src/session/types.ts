@@ -1,7 +1,19 @@
+export interface ConsoleArg {
+  type: string;
+  // JSON serialization, cut at the depth and size limits
+  value: string;
+  truncated?: boolean;
+}
+
 export interface ConsoleLogEntry {
-  type: 'log' | 'debug' | 'info' | 'error' | 'warning' | 'trace';
+  id: string;
+  // 'pageerror' is an uncaught exception or unhandled rejection, not a console call
+  type: 'log' | 'debug' | 'info' | 'error' | 'warning' | 'trace' | 'pageerror';
   text: string;
+  args?: ConsoleArg[];
   timestamp: number;
+  tabId?: string;
+  stack?: string;
   location?: {
     url: string;
     lineNumber: number;
@@ -17,19 +29,49 @@ export interface NetworkRequestEntry {
   postData?: string;
   resourceType: string;
   timestamp: number;
+  tabId?: string;
+  networkProfile?: string;
+  // Id of the route mock that answered or aborted this request
+  mocked?: string;
+  // Answered from the HAR file being replayed
+  replayed?: boolean;
+  // Network-level failure reported by the browser (DNS, CORS, aborted...)
+  failure?: string;
+  // Operations in a GraphQL request, more than one when batched
+  graphql?: GraphQLOperation[];
+  // Messages from the `errors` array of a GraphQL response
+  graphqlErrors?: string[];
+  // Ids of the neighbouring entries in a redirect chain
+  redirectedFrom?: string;
+  redirectedTo?: string;
   duration?: number;
   response?: {
     status: number;
     statusText: string;
     headers: Record<string, string>;
-    body?: string;
   };
 }
 
+export interface GraphQLOperation {
+  operationName?: string;
+  operationType: 'query' | 'mutation' | 'subscription';
+  // Raw JSON of the variables, when any were sent
+  variables?: string;
+}
+
+export interface OriginalLocation {
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+  snippet?: string[];
+}
+
 export interface ConsoleFilter {
   types?: ConsoleLogEntry['type'][];
   since?: number;
   search?: string;
+  tabId?: string;
 }
 
 export interface NetworkFilter {
@@ -37,9 +79,22 @@ export interface NetworkFilter {
   methods?: string[];
   statusCodes?: number[];
   failed?: boolean;
+  tabId?: string;
+  operationName?: string;
 }
 
+export interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  active: boolean;
+  openerId?: string;
+}
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
 export interface SessionConfig {
+  browser: BrowserName;
   headless: boolean;
   baseUrl: string;
   timeout: number;
@@ -47,4 +102,163 @@ export interface SessionConfig {
     width: number;
     height: number;
   };
+  storageState?: string;
+  cdpEndpoint?: string;
+  baselineDir: string;
+  artifactsDir: string;
+  ignorePatterns: string[];
+  extraHeaders: Record<string, string>;
+  devServer?: string;
+  sourceMapDir?: string;
+  limits: BufferLimits;
+}
+
+export interface BufferLimit {
+  entries: number;
+  megabytes: number;
+}
+
+export interface BufferLimits {
+  console: BufferLimit;
+  network: BufferLimit;
+  screenshots: BufferLimit;
+  domSnapshots: BufferLimit;
+  responseBodies: BufferLimit;
+  events: BufferLimit;
+}
+
+export interface SessionStats {
+  console: BufferStats;
+  network: BufferStats;
+  screenshots: BufferStats;
+  domSnapshots: BufferStats;
+  responseBodies: BufferStats;
+  events: BufferStats;
+}
+
+export interface BufferStats {
+  entries: number;
+  bytes: number;
+  evicted: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export type ConfigSource = 'default' | 'file' | 'env';
+
+export interface LoadedConfig {
+  config: SessionConfig;
+  sources: Partial<Record<keyof SessionConfig, ConfigSource>>;
+  file?: string;
+}
+
+export interface DeviceInfo {
+  name?: string;
+  viewport: { width: number; height: number } | null;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+export interface EmulationSettings {
+  locale?: string;
+  timezoneId?: string;
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  };
+  permissions?: string[];
+  extraHTTPHeaders?: Record<string, string>;
 }
+
+export interface MediaSettings {
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+  forcedColors?: 'active' | 'none';
+  media?: 'screen' | 'print';
+}
+
+export interface NetworkConditions {
+  name: string;
+  offline: boolean;
+  latency: number;
+  downloadThroughput: number;
+  uploadThroughput: number;
+}
+
+export interface RouteMockSettings {
+  url: string;
+  // Treat url as a regular expression instead of a glob
+  regex?: boolean;
+  method?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  // File the body is read from when the mock is added
+  bodyFile?: string;
+  delay?: number;
+  // Playwright error code such as "failed" or "connectionrefused"
+  abort?: string;
+  // Stop matching after this many hits
+  times?: number;
+}
+
+export interface RouteMock extends RouteMockSettings {
+  id: string;
+  hits: number;
+  createdAt: number;
+}
+
+export interface HarReplay {
+  path: string;
+  // Only requests matching this glob (or regex) are looked up in the HAR
+  url?: string;
+  regex?: boolean;
+  // strict aborts requests missing from the HAR; fallthrough sends them to the network
+  mode: 'strict' | 'fallthrough';
+  startedAt: number;
+}
+
+export interface SessionOptions {
+  browser?: BrowserName;
+}
+
+export interface SessionInfo {
+  name: string;
+  browser: BrowserName;
+  started: boolean;
+  tabs: number;
+  url?: string;
+  createdAt: number;
+}
+
+export interface SessionEvent {
+  type: 'crash' | 'page-closed' | 'context-closed' | 'disconnected' | 'recovered';
+  message: string;
+  timestamp: number;
+  tabId?: string;
+}
+
+export interface DevServerLogEntry {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  timestamp: number;
+}
+
+export interface DevServerStatus {
+  command: string;
+  cwd: string;
+  pid?: number;
+  running: boolean;
+  ready: boolean;
+  exitCode?: number | null;
+  signal?: string;
+  startedAt: number;
+}
+
+export type CaptureEvent =
+  | { session: string; kind: 'console'; entry: ConsoleLogEntry }
+  | { session: string; kind: 'network'; entry: NetworkRequestEntry };
+
+export type CaptureListener = (event: CaptureEvent) => void;
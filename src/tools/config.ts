@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { sessionManager } from '../session/manager.js';
+import { CONFIG_FILE_NAMES } from '../session/config.js';
+
+export const getConfigSchema = z.object({});
+
+export async function getConfig() {
+  try {
+    const { config, sources, file } = await sessionManager.loadConfig();
+
+    const lines = [
+      file
+        ? `config file: ${file}`
+        : `config file: none found (looked for ${CONFIG_FILE_NAMES.join(', ')} from ${process.cwd()} upwards)`,
+      '',
+    ];
+
+    for (const [key, value] of Object.entries(config)) {
+      const source = sources[key as keyof typeof config] ?? 'default';
+      // Header values are often credentials, so only their names are shown
+      const shown = key === 'extraHeaders' ? Object.fromEntries(Object.keys(value).map((name) => [name, '***'])) : value;
+      lines.push(`${key}: ${JSON.stringify(shown)} (${source})`);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}\nsuggestion: fix the config file or environment variable named above`,
+        },
+      ],
+    };
+  }
+}
@@ -1,9 +1,108 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { ConsoleLogEntry } from '../session/types.js';
+import { previewConsoleArgs } from '../session/console-args.js';
+import { evictionNote, sessionArg } from './session.js';
+
+export const errorSourceArg = z
+  .enum(['all', 'console', 'pageerror'])
+  .optional()
+  .describe('console: console.error calls, pageerror: uncaught exceptions and unhandled rejections (default all)');
+
+export function errorTypes(source: z.infer<typeof errorSourceArg>): ConsoleLogEntry['type'][] {
+  if (source === 'console') return ['error'];
+  if (source === 'pageerror') return ['pageerror'];
+  return ['error', 'pageerror'];
+}
+
+// Stacks repeat the message on their first line in chromium; keep the frames
+function stackFrames(log: ConsoleLogEntry): string[] {
+  if (!log.stack) return [];
+  return log.stack
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && (line.startsWith('at ') || line.includes('@')));
+}
+
+// chromium: "at fn (url:line:col)", firefox/webkit: "fn@url:line:col"
+function framePosition(frame: string): { url: string; line: number; column: number } | null {
+  const match = /(https?:\/\/[^\s()]+):(\d+):(\d+)\)?$/.exec(frame);
+  return match ? { url: match[1], line: Number(match[2]), column: Number(match[3]) - 1 } : null;
+}
+
+export interface ConsoleGroup {
+  signature: string;
+  type: ConsoleLogEntry['type'];
+  // Most recent raw message, so the reader sees real values
+  sample: string;
+  count: number;
+  first: number;
+  last: number;
+}
+
+function messageText(log: ConsoleLogEntry): string {
+  return log.args && log.args.length > 0 ? previewConsoleArgs(log.args) : log.text;
+}
+
+/**
+ * Reduces a message to its shape: ids, hashes and numbers vary between
+ * repeats of the same problem, so they are replaced with placeholders.
+ */
+export function normalizeMessage(text: string): string {
+  return text
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function consoleSignature(log: ConsoleLogEntry): string {
+  const frame = stackFrames(log)[0];
+  const location = frame
+    ? framePosition(frame)
+    : log.location
+      ? { url: log.location.url, line: log.location.lineNumber, column: log.location.columnNumber }
+      : null;
+  // Cache-busting query strings change on every rebuild
+  const where = location ? `${location.url.split('?')[0]}:${location.line}:${location.column}` : '';
+  return `${log.type}|${normalizeMessage(messageText(log))}|${where}`;
+}
+
+/**
+ * Collapses repeated messages into one group per signature, ordered by
+ * their most recent occurrence like the raw log.
+ */
+export function groupConsoleLogs(logs: ConsoleLogEntry[]): ConsoleGroup[] {
+  const groups = new Map<string, ConsoleGroup>();
+  for (const log of logs) {
+    const signature = consoleSignature(log);
+    const group = groups.get(signature);
+    if (group) {
+      group.count++;
+      group.last = log.timestamp;
+      group.sample = messageText(log);
+    } else {
+      groups.set(signature, {
+        signature,
+        type: log.type,
+        sample: messageText(log),
+        count: 1,
+        first: log.timestamp,
+        last: log.timestamp,
+      });
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => a.last - b.last);
+}
+
+function clockTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[1].split('.')[0];
+}
 
 export const getConsoleLogsSchema = z.object({
   types: z
-    .array(z.enum(['log', 'debug', 'info', 'error', 'warning', 'trace']))
+    .array(z.enum(['log', 'debug', 'info', 'error', 'warning', 'trace', 'pageerror']))
     .optional()
     .describe('filter by log types'),
   since: z
@@ -19,15 +118,72 @@ export const getConsoleLogsSchema = z.object({
     .string()
     .optional()
     .describe('search text within log messages'),
+  tabId: z
+    .string()
+    .optional()
+    .describe('only logs from this tab'),
+  entryId: z
+    .string()
+    .optional()
+    .describe('return every argument of this log entry in full (ids are shown as #id in listings)'),
+  group: z
+    .boolean()
+    .optional()
+    .describe('collapse repeated messages (numbers and ids normalized, same location) into one line with counts'),
+  session: sessionArg,
 });
 
 export async function getConsoleLogs(args: z.infer<typeof getConsoleLogsSchema>) {
-  const logs = sessionManager.getConsoleLogs({
+  const session = await sessionManager.getSession(args.session);
+
+  if (args.entryId) {
+    const entry = session.getConsoleLog(args.entryId.replace(/^#/, ''));
+    if (!entry) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `error: console entry "${args.entryId}" not found\nsuggestion: it may have been cleared; list logs again to get current ids`,
+          },
+        ],
+      };
+    }
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: formatConsoleEntry(entry),
+        },
+      ],
+    };
+  }
+
+  const logs = session.getConsoleLogs({
     types: args.types,
     since: args.since,
     search: args.search,
+    tabId: args.tabId,
   });
 
+  if (args.group && logs.length > 0) {
+    const groups = groupConsoleLogs(logs).slice(-args.limit!);
+    const formatted = groups
+      .map((group) => {
+        const span = group.count > 1 ? `${clockTime(group.first)}-${clockTime(group.last)}` : clockTime(group.first);
+        return `[${group.type.toUpperCase()}] x${group.count} ${span}: ${group.sample}`;
+      })
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `console logs (${groups.length} groups from ${logs.length} entries):\n\n${formatted}${evictionNote(session.getStats().console, 'console entries were')}`,
+        },
+      ],
+    };
+  }
+
   const limited = logs.slice(-args.limit!);
 
   if (limited.length === 0) {
@@ -35,7 +191,7 @@ export async function getConsoleLogs(args: z.infer<typeof getConsoleLogsSchema>)
       content: [
         {
           type: 'text' as const,
-          text: 'no console logs matching filters',
+          text: `no console logs matching filters${evictionNote(session.getStats().console, 'console entries were')}`,
         },
       ],
     };
@@ -44,7 +200,9 @@ export async function getConsoleLogs(args: z.infer<typeof getConsoleLogsSchema>)
   const formatted = limited
     .map((log) => {
       const time = new Date(log.timestamp).toISOString().split('T')[1].split('.')[0];
-      return `[${log.type.toUpperCase()}] ${time}: ${log.text}`;
+      const tab = log.tabId ? ` ${log.tabId}` : '';
+      const text = log.args && log.args.length > 0 ? previewConsoleArgs(log.args) : log.text;
+      return `[${log.type.toUpperCase()}] ${time}${tab} #${log.id}: ${text}`;
     })
     .join('\n');
 
@@ -52,16 +210,40 @@ export async function getConsoleLogs(args: z.infer<typeof getConsoleLogsSchema>)
     content: [
       {
         type: 'text' as const,
-        text: `console logs (${limited.length} entries):\n\n${formatted}`,
+        text: `console logs (${limited.length} entries):\n\n${formatted}${evictionNote(session.getStats().console, 'console entries were')}`,
       },
     ],
   };
 }
 
-export const clearConsoleSchema = z.object({});
+function formatConsoleEntry(entry: ConsoleLogEntry): string {
+  const time = new Date(entry.timestamp).toISOString().split('T')[1].split('.')[0];
+  const lines = [`[${entry.type.toUpperCase()}] ${time}${entry.tabId ? ` ${entry.tabId}` : ''} #${entry.id}`, `text: ${entry.text}`];
+
+  if (!entry.args || entry.args.length === 0) {
+    lines.push(entry.stack ? `stack:\n${entry.stack}` : 'no structured arguments captured');
+    return lines.join('\n');
+  }
+
+  entry.args.forEach((arg, i) => {
+    let value = arg.value;
+    try {
+      value = JSON.stringify(JSON.parse(arg.value), null, 2);
+    } catch {
+      // Already cut mid-value by the size limit; show it as stored
+    }
+    lines.push('', `arg ${i + 1} (${arg.type}${arg.truncated ? ', truncated' : ''}):`, value);
+  });
+  return lines.join('\n');
+}
+
+export const clearConsoleSchema = z.object({
+  session: sessionArg,
+});
 
-export async function clearConsole() {
-  sessionManager.clearConsoleLogs();
+export async function clearConsole(args: z.infer<typeof clearConsoleSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  session.clearConsoleLogs();
 
   return {
     content: [
@@ -79,11 +261,18 @@ export const getConsoleErrorsSchema = z.object({
     .optional()
     .default(20)
     .describe('maximum number of errors to return'),
+  source: errorSourceArg,
+  sourceMaps: z
+    .boolean()
+    .optional()
+    .describe('map bundled locations back to original source files (default true)'),
+  session: sessionArg,
 });
 
 export async function getConsoleErrors(args: z.infer<typeof getConsoleErrorsSchema>) {
-  const logs = sessionManager.getConsoleLogs({
-    types: ['error'],
+  const session = await sessionManager.getSession(args.session);
+  const logs = session.getConsoleLogs({
+    types: errorTypes(args.source),
   });
 
   const limited = logs.slice(-args.limit!);
@@ -93,28 +282,52 @@ export async function getConsoleErrors(args: z.infer<typeof getConsoleErrorsSche
       content: [
         {
           type: 'text' as const,
-          text: 'no console errors',
+          text: (args.source === 'pageerror' ? 'no uncaught exceptions or unhandled rejections' : 'no console errors') + evictionNote(session.getStats().console, 'console entries were'),
         },
       ],
     };
   }
 
-  const formatted = limited
-    .map((log) => {
-      const time = new Date(log.timestamp).toISOString().split('T')[1].split('.')[0];
-      let text = `[${time}] ${log.text}`;
-      if (log.location) {
-        text += `\n  at ${log.location.url}:${log.location.lineNumber}:${log.location.columnNumber}`;
+  const resolver = args.sourceMaps === false ? null : await sessionManager.getSourceMapResolver();
+
+  const formatted: string[] = [];
+  for (const log of limited) {
+    const time = new Date(log.timestamp).toISOString().split('T')[1].split('.')[0];
+    const tab = log.tabId ? ` ${log.tabId}` : '';
+    const marker = log.type === 'pageerror' ? ' [UNCAUGHT]' : '';
+    const lines = [`[${time}${tab}]${marker} ${log.text}`];
+
+    // Console locations are 0-based; stack frames use 1-based lines and columns
+    const frames = stackFrames(log).map((frame) => ({ text: frame, position: framePosition(frame) }));
+    if (frames.length === 0 && log.location) {
+      const { url, lineNumber, columnNumber } = log.location;
+      frames.push({
+        text: `at ${url}:${lineNumber}:${columnNumber}`,
+        position: { url, line: lineNumber + 1, column: columnNumber },
+      });
+    }
+
+    let snippetShown = false;
+    for (const frame of frames) {
+      lines.push(`  ${frame.text}`);
+      if (!resolver || !frame.position) continue;
+      const original = await resolver.resolve(frame.position.url, frame.position.line, frame.position.column);
+      if (!original) continue;
+      lines.push(`    -> ${original.source}:${original.line}:${original.column}${original.name ? ` (${original.name})` : ''}`);
+      // Source for the innermost mapped frame is usually enough to act on
+      if (!snippetShown && original.snippet) {
+        lines.push(...original.snippet.map((line) => `       ${line}`));
+        snippetShown = true;
       }
-      return text;
-    })
-    .join('\n\n');
+    }
+    formatted.push(lines.join('\n'));
+  }
 
   return {
     content: [
       {
         type: 'text' as const,
-        text: `console errors (${limited.length}):\n\n${formatted}`,
+        text: `console errors (${limited.length}):\n\n${formatted.join('\n\n')}${evictionNote(session.getStats().console, 'console entries were')}`,
       },
     ],
   };
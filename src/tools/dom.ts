@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { evictionNote, sessionArg } from './session.js';
 
 export const getDomSnapshotSchema = z.object({
   name: z.string().describe('name to identify this snapshot'),
@@ -8,11 +9,13 @@ export const getDomSnapshotSchema = z.object({
     .optional()
     .default('body')
     .describe('root element to snapshot'),
+  session: sessionArg,
 });
 
 export async function getDomSnapshot(args: z.infer<typeof getDomSnapshotSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     const html = await page.evaluate((selector) => {
       const el = document.querySelector(selector);
@@ -30,13 +33,13 @@ export async function getDomSnapshot(args: z.infer<typeof getDomSnapshotSchema>)
       };
     }
 
-    sessionManager.storeDomSnapshot(args.name, html);
+    const evicted = session.storeDomSnapshot(args.name, html);
 
     return {
       content: [
         {
           type: 'text' as const,
-          text: `dom snapshot "${args.name}" captured (${html.length} chars)`,
+          text: `dom snapshot "${args.name}" captured (${html.length} chars)${evicted.length > 0 ? `\nevicted least recently used: ${evicted.join(', ')}` : ''}`,
         },
       ],
     };
@@ -56,18 +59,22 @@ export async function getDomSnapshot(args: z.infer<typeof getDomSnapshotSchema>)
 export const domDiffSchema = z.object({
   baseline: z.string().describe('name of baseline snapshot'),
   current: z.string().describe('name of current snapshot'),
+  session: sessionArg,
 });
 
 export async function domDiff(args: z.infer<typeof domDiffSchema>) {
-  const baseline = sessionManager.getDomSnapshot(args.baseline);
-  const current = sessionManager.getDomSnapshot(args.current);
+  const session = await sessionManager.getSession(args.session);
+  const baseline = session.getDomSnapshot(args.baseline);
+  const current = session.getDomSnapshot(args.current);
 
   if (!baseline) {
     return {
       content: [
         {
           type: 'text' as const,
-          text: `error: baseline snapshot "${args.baseline}" not found\nsuggestion: capture a dom snapshot with name "${args.baseline}" first`,
+          text: session.wasEvicted('domSnapshot', args.baseline)
+            ? `error: baseline snapshot "${args.baseline}" was evicted to stay within the dom snapshot limit\nsuggestion: capture it again`
+            : `error: baseline snapshot "${args.baseline}" not found\nsuggestion: capture a dom snapshot with name "${args.baseline}" first`,
         },
       ],
     };
@@ -78,7 +85,9 @@ export async function domDiff(args: z.infer<typeof domDiffSchema>) {
       content: [
         {
           type: 'text' as const,
-          text: `error: current snapshot "${args.current}" not found\nsuggestion: capture a dom snapshot with name "${args.current}" first`,
+          text: session.wasEvicted('domSnapshot', args.current)
+            ? `error: current snapshot "${args.current}" was evicted to stay within the dom snapshot limit\nsuggestion: capture it again`
+            : `error: current snapshot "${args.current}" not found\nsuggestion: capture a dom snapshot with name "${args.current}" first`,
         },
       ],
     };
@@ -148,11 +157,13 @@ export async function domDiff(args: z.infer<typeof domDiffSchema>) {
 
 export const getElementInfoSchema = z.object({
   selector: z.string().describe('css selector'),
+  session: sessionArg,
 });
 
 export async function getElementInfo(args: z.infer<typeof getElementInfoSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     const info = await page.evaluate((selector) => {
       const el = document.querySelector(selector);
@@ -226,17 +237,20 @@ export async function getElementInfo(args: z.infer<typeof getElementInfoSchema>)
   }
 }
 
-export const listDomSnapshotsSchema = z.object({});
+export const listDomSnapshotsSchema = z.object({
+  session: sessionArg,
+});
 
-export async function listDomSnapshots() {
-  const names = sessionManager.listDomSnapshots();
+export async function listDomSnapshots(args: z.infer<typeof listDomSnapshotsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const names = session.listDomSnapshots();
 
   if (names.length === 0) {
     return {
       content: [
         {
           type: 'text' as const,
-          text: 'no dom snapshots stored',
+          text: `no dom snapshots stored${evictionNote(session.getStats().domSnapshots, 'dom snapshots were')}`,
         },
       ],
     };
@@ -246,7 +260,7 @@ export async function listDomSnapshots() {
     content: [
       {
         type: 'text' as const,
-        text: `stored dom snapshots:\n${names.map((n) => `- ${n}`).join('\n')}`,
+        text: `stored dom snapshots:\n${names.map((n) => `- ${n}`).join('\n')}${evictionNote(session.getStats().domSnapshots, 'dom snapshots were')}`,
       },
     ],
   };
@@ -0,0 +1,279 @@
+import { z } from 'zod';
+import { devices, BrowserContextOptions } from 'playwright';
+import { sessionManager } from '../session/manager.js';
+import { EmulationSettings, MediaSettings } from '../session/types.js';
+import { sessionArg } from './session.js';
+
+export const setDeviceSchema = z.object({
+  device: z
+    .string()
+    .optional()
+    .describe('playwright device name, e.g. "iPhone 13", "Pixel 7", "Desktop Chrome"'),
+  width: z.number().optional().describe('viewport width in css pixels'),
+  height: z.number().optional().describe('viewport height in css pixels'),
+  deviceScaleFactor: z.number().optional().describe('device pixel ratio'),
+  isMobile: z.boolean().optional().describe('emulate a mobile browser (meta viewport, no scrollbars)'),
+  hasTouch: z.boolean().optional().describe('enable touch events'),
+  session: sessionArg,
+});
+
+export async function setDevice(args: z.infer<typeof setDeviceSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    let options: BrowserContextOptions = {};
+
+    if (args.device) {
+      const descriptor = devices[args.device];
+      if (!descriptor) {
+        const needle = args.device.toLowerCase();
+        const similar = Object.keys(devices)
+          .filter((name) => name.toLowerCase().includes(needle.split(' ')[0]))
+          .slice(0, 10);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `error: unknown device "${args.device}"${similar.length > 0 ? `\nsuggestion: try one of ${similar.map((n) => `"${n}"`).join(', ')}` : ''}`,
+            },
+          ],
+        };
+      }
+      // Playwright's own idiom; newContext ignores defaultBrowserType
+      options = { ...descriptor };
+    }
+
+    const current = session.getDevice();
+    if (args.width !== undefined || args.height !== undefined) {
+      const base = options.viewport ?? current.viewport ?? (await sessionManager.getConfig()).viewport;
+      options.viewport = {
+        width: args.width ?? base.width,
+        height: args.height ?? base.height,
+      };
+    }
+    if (args.deviceScaleFactor !== undefined) options.deviceScaleFactor = args.deviceScaleFactor;
+    if (args.isMobile !== undefined) options.isMobile = args.isMobile;
+    if (args.hasTouch !== undefined) options.hasTouch = args.hasTouch;
+
+    if (Object.keys(options).length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: provide a device name or at least one of width, height, deviceScaleFactor, isMobile, hasTouch',
+          },
+        ],
+      };
+    }
+
+    const page = await session.setDevice(args.device ?? null, options);
+    const device = session.getDevice();
+
+    const lines = [
+      `device: ${device.name ?? 'custom'}`,
+      `viewport: ${device.viewport?.width}x${device.viewport?.height} @${device.deviceScaleFactor}x`,
+      `mobile: ${device.isMobile}, touch: ${device.hasTouch}`,
+      `url: ${page.url()}`,
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const setEmulationSchema = z.object({
+  locale: z
+    .string()
+    .optional()
+    .describe('locale such as "de-DE" (affects navigator.language, Intl formatting)'),
+  timezoneId: z
+    .string()
+    .optional()
+    .describe('IANA timezone such as "America/New_York"'),
+  geolocation: z
+    .object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+      accuracy: z.number().optional(),
+    })
+    .optional()
+    .describe('position reported by navigator.geolocation'),
+  permissions: z
+    .array(z.string())
+    .optional()
+    .describe('permissions to grant, e.g. geolocation, notifications, clipboard-read, clipboard-write'),
+  headers: z
+    .record(z.string())
+    .optional()
+    .describe('extra http headers sent with every request'),
+  reset: z
+    .boolean()
+    .optional()
+    .describe('clear all emulation overrides before applying the others'),
+  session: sessionArg,
+});
+
+export async function setEmulation(args: z.infer<typeof setEmulationSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const settings: EmulationSettings = args.reset
+      ? {
+          locale: undefined,
+          timezoneId: undefined,
+          geolocation: undefined,
+          permissions: undefined,
+          extraHTTPHeaders: undefined,
+        }
+      : {};
+
+    if (args.locale !== undefined) settings.locale = args.locale;
+    if (args.timezoneId !== undefined) settings.timezoneId = args.timezoneId;
+    if (args.geolocation !== undefined) settings.geolocation = args.geolocation;
+    if (args.permissions !== undefined) settings.permissions = args.permissions;
+    if (args.headers !== undefined) settings.extraHTTPHeaders = args.headers;
+
+    if (Object.keys(settings).length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: provide at least one of locale, timezoneId, geolocation, permissions, headers or reset',
+          },
+        ],
+      };
+    }
+
+    const page = await session.setEmulation(settings);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `emulation updated\n${formatEmulation(session.getEmulation()).join('\n') || 'no overrides'}\nurl: ${page.url()}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export function formatEmulation(emulation: EmulationSettings): string[] {
+  const lines: string[] = [];
+  if (emulation.locale) lines.push(`locale: ${emulation.locale}`);
+  if (emulation.timezoneId) lines.push(`timezone: ${emulation.timezoneId}`);
+  if (emulation.geolocation) {
+    const { latitude, longitude } = emulation.geolocation;
+    lines.push(`geolocation: ${latitude}, ${longitude}`);
+  }
+  if (emulation.permissions && emulation.permissions.length > 0) {
+    lines.push(`permissions: ${emulation.permissions.join(', ')}`);
+  }
+  if (emulation.extraHTTPHeaders) {
+    lines.push(`extra headers: ${Object.keys(emulation.extraHTTPHeaders).join(', ')}`);
+  }
+  return lines;
+}
+
+export const mediaFeaturesSchema = z.object({
+  colorScheme: z
+    .enum(['light', 'dark', 'no-preference'])
+    .optional()
+    .describe('prefers-color-scheme'),
+  reducedMotion: z
+    .enum(['reduce', 'no-preference'])
+    .optional()
+    .describe('prefers-reduced-motion'),
+  forcedColors: z
+    .enum(['active', 'none'])
+    .optional()
+    .describe('forced-colors'),
+  media: z
+    .enum(['screen', 'print'])
+    .optional()
+    .describe('css media type'),
+});
+
+export const emulateMediaSchema = mediaFeaturesSchema.extend({
+  reset: z
+    .boolean()
+    .optional()
+    .describe('clear all media overrides before applying the others'),
+  session: sessionArg,
+});
+
+export async function emulateMedia(args: z.infer<typeof emulateMediaSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const settings: MediaSettings = args.reset
+      ? { colorScheme: undefined, reducedMotion: undefined, forcedColors: undefined, media: undefined }
+      : {};
+
+    if (args.colorScheme !== undefined) settings.colorScheme = args.colorScheme;
+    if (args.reducedMotion !== undefined) settings.reducedMotion = args.reducedMotion;
+    if (args.forcedColors !== undefined) settings.forcedColors = args.forcedColors;
+    if (args.media !== undefined) settings.media = args.media;
+
+    if (Object.keys(settings).length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: provide at least one of colorScheme, reducedMotion, forcedColors, media or reset',
+          },
+        ],
+      };
+    }
+
+    await session.setMedia(settings);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `media emulation updated\n${formatMedia(session.getMedia()) || 'no overrides'}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export function formatMedia(media: MediaSettings): string {
+  return Object.entries(media)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+}
@@ -4,6 +4,7 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { sessionManager } from '../session/manager.js';
 
 import * as navigation from './navigation.js';
 import * as interaction from './interaction.js';
@@ -12,6 +13,12 @@ import * as consoleTool from './console.js';
 import * as network from './network.js';
 import * as dom from './dom.js';
 import * as qa from './qa.js';
+import * as tabs from './tabs.js';
+import * as session from './session.js';
+import * as emulation from './emulation.js';
+import * as storage from './storage.js';
+import * as config from './config.js';
+import * as devServer from './server.js';
 
 type ContentItem = { type: string; text?: string; data?: string; mimeType?: string };
 type ToolHandler = (args: unknown) => Promise<{ content: ContentItem[] }>;
@@ -22,6 +29,21 @@ interface Tool {
   handler: ToolHandler;
 }
 
+// Tell the caller when a crashed browser was transparently restarted
+function withRecoveryNotices(content: ContentItem[]): ContentItem[] {
+  const notices = sessionManager.takeRecoveryNotices();
+  if (notices.length === 0) {
+    return content;
+  }
+  return [
+    ...content,
+    {
+      type: 'text',
+      text: notices.map((n) => `note: ${n}`).join('\n'),
+    },
+  ];
+}
+
 function wrapHandler<T>(fn: (args: T) => Promise<{ content: ContentItem[] }>): ToolHandler {
   return fn as unknown as ToolHandler;
 }
@@ -98,7 +120,7 @@ const tools: Record<string, Tool> = {
     handler: wrapHandler(visual.listScreenshots),
   },
   get_console_logs: {
-    description: 'get browser console logs',
+    description: 'get browser console logs with object arguments as json previews (group collapses repeats, entryId returns full arguments)',
     schema: consoleTool.getConsoleLogsSchema,
     handler: wrapHandler(consoleTool.getConsoleLogs),
   },
@@ -108,7 +130,7 @@ const tools: Record<string, Tool> = {
     handler: wrapHandler(consoleTool.clearConsole),
   },
   get_console_errors: {
-    description: 'get console errors only',
+    description: 'get console errors, uncaught exceptions and unhandled rejections with stack traces',
     schema: consoleTool.getConsoleErrorsSchema,
     handler: wrapHandler(consoleTool.getConsoleErrors),
   },
@@ -118,10 +140,15 @@ const tools: Record<string, Tool> = {
     handler: wrapHandler(network.getNetworkRequests),
   },
   get_response_body: {
-    description: 'get the response body of a request',
+    description: 'get the response body of a request: paged text, json selected by JSONPath, images, or saved to a file',
     schema: network.getResponseBodySchema,
     handler: wrapHandler(network.getResponseBody),
   },
+  export_har: {
+    description: 'write captured network requests to a HAR 1.2 file in the artifacts directory',
+    schema: network.exportHarSchema,
+    handler: wrapHandler(network.exportHar),
+  },
   clear_network: {
     description: 'clear the network request buffer',
     schema: network.clearNetworkSchema,
@@ -132,6 +159,36 @@ const tools: Record<string, Tool> = {
     schema: network.waitForNetworkIdleSchema,
     handler: wrapHandler(network.waitForNetworkIdle),
   },
+  set_network_conditions: {
+    description: 'throttle the network (Slow 3G, Fast 3G, custom) or simulate offline',
+    schema: network.setNetworkConditionsSchema,
+    handler: wrapHandler(network.setNetworkConditions),
+  },
+  mock_route: {
+    description: 'answer matching requests with a canned status/body, a delay or a network error',
+    schema: network.mockRouteSchema,
+    handler: wrapHandler(network.mockRoute),
+  },
+  unmock_route: {
+    description: 'remove a request mock, or all of them',
+    schema: network.unmockRouteSchema,
+    handler: wrapHandler(network.unmockRoute),
+  },
+  list_mocks: {
+    description: 'list active request mocks and how often each was hit',
+    schema: network.listMocksSchema,
+    handler: wrapHandler(network.listMocks),
+  },
+  replay_har: {
+    description: 'serve matching requests from a HAR file instead of the network',
+    schema: network.replayHarSchema,
+    handler: wrapHandler(network.replayHar),
+  },
+  stop_har_replay: {
+    description: 'stop serving requests from a HAR file',
+    schema: network.stopHarReplaySchema,
+    handler: wrapHandler(network.stopHarReplay),
+  },
   get_dom_snapshot: {
     description: 'capture a dom snapshot',
     schema: dom.getDomSnapshotSchema,
@@ -158,7 +215,7 @@ const tools: Record<string, Tool> = {
     handler: wrapHandler(qa.getPageState),
   },
   verify_no_errors: {
-    description: 'verify no console errors exist',
+    description: 'verify no console errors, uncaught exceptions or unhandled rejections exist',
     schema: qa.verifyNoErrorsSchema,
     handler: wrapHandler(qa.verifyNoErrors),
   },
@@ -177,6 +234,131 @@ const tools: Record<string, Tool> = {
     schema: qa.verifyTextOnPageSchema,
     handler: wrapHandler(qa.verifyTextOnPage),
   },
+  list_tabs: {
+    description: 'list open tabs and popups',
+    schema: tabs.listTabsSchema,
+    handler: wrapHandler(tabs.listTabs),
+  },
+  new_tab: {
+    description: 'open a new tab and make it active',
+    schema: tabs.newTabSchema,
+    handler: wrapHandler(tabs.newTab),
+  },
+  switch_tab: {
+    description: 'make another tab the target of subsequent tools',
+    schema: tabs.switchTabSchema,
+    handler: wrapHandler(tabs.switchTab),
+  },
+  close_tab: {
+    description: 'close a tab or popup',
+    schema: tabs.closeTabSchema,
+    handler: wrapHandler(tabs.closeTab),
+  },
+  create_session: {
+    description: 'create a named, isolated browser session (separate cookies, storage and captures)',
+    schema: session.createSessionSchema,
+    handler: wrapHandler(session.createSession),
+  },
+  list_sessions: {
+    description: 'list named browser sessions',
+    schema: session.listSessionsSchema,
+    handler: wrapHandler(session.listSessions),
+  },
+  destroy_session: {
+    description: 'close a named browser session and discard its data',
+    schema: session.destroySessionSchema,
+    handler: wrapHandler(session.destroySession),
+  },
+  get_session_events: {
+    description: 'list browser crashes, unexpected closes and recoveries for a session',
+    schema: session.getSessionEventsSchema,
+    handler: wrapHandler(session.getSessionEvents),
+  },
+  get_session_stats: {
+    description: 'show buffer usage, evictions and limits for a session, plus server memory',
+    schema: session.getSessionStatsSchema,
+    handler: wrapHandler(session.getSessionStats),
+  },
+  set_device: {
+    description: 'emulate a device preset or custom viewport (keeps the current url)',
+    schema: emulation.setDeviceSchema,
+    handler: wrapHandler(emulation.setDevice),
+  },
+  set_emulation: {
+    description: 'emulate locale, timezone, geolocation, permissions and extra headers',
+    schema: emulation.setEmulationSchema,
+    handler: wrapHandler(emulation.setEmulation),
+  },
+  emulate_media: {
+    description: 'emulate dark mode, reduced motion, forced colors or print media',
+    schema: emulation.emulateMediaSchema,
+    handler: wrapHandler(emulation.emulateMedia),
+  },
+  save_storage_state: {
+    description: 'save cookies and localStorage to a file under the artifacts directory (e.g. after logging in)',
+    schema: storage.saveStorageStateSchema,
+    handler: wrapHandler(storage.saveStorageState),
+  },
+  load_storage_state: {
+    description: 'restore cookies and localStorage from a saved storage state file',
+    schema: storage.loadStorageStateSchema,
+    handler: wrapHandler(storage.loadStorageState),
+  },
+  list_cookies: {
+    description: 'list cookies in the browser context, optionally only those sent to a url',
+    schema: storage.listCookiesSchema,
+    handler: wrapHandler(storage.listCookies),
+  },
+  get_cookie: {
+    description: 'get the full value and attributes of a cookie by name',
+    schema: storage.getCookieSchema,
+    handler: wrapHandler(storage.getCookie),
+  },
+  set_cookie: {
+    description: 'add or overwrite a cookie (scoped to a url, or a domain and path)',
+    schema: storage.setCookieSchema,
+    handler: wrapHandler(storage.setCookie),
+  },
+  delete_cookies: {
+    description: 'delete cookies matching a name, domain and/or path (all cookies if none given)',
+    schema: storage.deleteCookiesSchema,
+    handler: wrapHandler(storage.deleteCookies),
+  },
+  get_web_storage: {
+    description: 'read localStorage or sessionStorage entries for the current page origin',
+    schema: storage.getWebStorageSchema,
+    handler: wrapHandler(storage.getWebStorage),
+  },
+  set_web_storage: {
+    description: 'write or remove a localStorage or sessionStorage entry for the current page origin',
+    schema: storage.setWebStorageSchema,
+    handler: wrapHandler(storage.setWebStorage),
+  },
+  get_indexeddb: {
+    description: 'read-only indexeddb browser: list databases, object stores, or sample records for the current origin',
+    schema: storage.getIndexedDbSchema,
+    handler: wrapHandler(storage.getIndexedDb),
+  },
+  get_config: {
+    description: 'show the effective config and where each value came from',
+    schema: config.getConfigSchema,
+    handler: wrapHandler(config.getConfig),
+  },
+  start_dev_server: {
+    description: 'start the configured dev server and wait until the base url port accepts connections',
+    schema: devServer.startDevServerSchema,
+    handler: wrapHandler(devServer.startDevServer),
+  },
+  stop_dev_server: {
+    description: 'stop the dev server started by start_dev_server (and everything it spawned)',
+    schema: devServer.stopDevServerSchema,
+    handler: wrapHandler(devServer.stopDevServer),
+  },
+  dev_server_logs: {
+    description: 'get stdout/stderr from the managed dev server (build errors, hmr failures)',
+    schema: devServer.devServerLogsSchema,
+    handler: wrapHandler(devServer.devServerLogs),
+  },
 };
 
 export function registerTools(server: Server) {
@@ -208,16 +390,17 @@ export function registerTools(server: Server) {
 
     try {
       const validated = tool.schema.parse(args);
-      return await tool.handler(validated);
+      const result = await tool.handler(validated);
+      return { ...result, content: withRecoveryNotices(result.content) };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       return {
-        content: [
+        content: withRecoveryNotices([
           {
             type: 'text',
             text: `error: ${message}`,
           },
-        ],
+        ]),
       };
     }
   });
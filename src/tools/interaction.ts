@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { sessionArg } from './session.js';
 
 export const clickSchema = z.object({
   selector: z.string().describe('css selector or text to click'),
@@ -18,11 +19,13 @@ export const clickSchema = z.object({
     .optional()
     .default(5000)
     .describe('timeout in ms'),
+  session: sessionArg,
 });
 
 export async function click(args: z.infer<typeof clickSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     await page.click(args.selector, {
       button: args.button,
@@ -64,11 +67,13 @@ export const typeSchema = z.object({
     .optional()
     .default(false)
     .describe('clear existing text first'),
+  session: sessionArg,
 });
 
 export async function type(args: z.infer<typeof typeSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     if (args.clear) {
       await page.fill(args.selector, '');
@@ -100,11 +105,13 @@ export async function type(args: z.infer<typeof typeSchema>) {
 export const fillSchema = z.object({
   selector: z.string().describe('css selector of input element'),
   value: z.string().describe('value to fill'),
+  session: sessionArg,
 });
 
 export async function fill(args: z.infer<typeof fillSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     await page.fill(args.selector, args.value);
 
     return {
@@ -135,11 +142,13 @@ export const scrollSchema = z.object({
     .describe('element to scroll into view'),
   x: z.number().optional().describe('horizontal scroll amount in pixels'),
   y: z.number().optional().describe('vertical scroll amount in pixels'),
+  session: sessionArg,
 });
 
 export async function scroll(args: z.infer<typeof scrollSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     if (args.selector) {
       await page.locator(args.selector).scrollIntoViewIfNeeded();
@@ -203,11 +212,13 @@ export const waitForElementSchema = z.object({
     .optional()
     .default(10000)
     .describe('timeout in ms'),
+  session: sessionArg,
 });
 
 export async function waitForElement(args: z.infer<typeof waitForElementSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     await page.locator(args.selector).waitFor({
       state: args.state,
@@ -242,11 +253,13 @@ export const hoverSchema = z.object({
     .optional()
     .default(5000)
     .describe('timeout in ms'),
+  session: sessionArg,
 });
 
 export async function hover(args: z.infer<typeof hoverSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     await page.hover(args.selector, { timeout: args.timeout });
 
     return {
@@ -273,11 +286,13 @@ export async function hover(args: z.infer<typeof hoverSchema>) {
 export const selectSchema = z.object({
   selector: z.string().describe('css selector of select element'),
   value: z.string().describe('value to select'),
+  session: sessionArg,
 });
 
 export async function select(args: z.infer<typeof selectSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     await page.selectOption(args.selector, args.value);
 
     return {
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { sessionArg } from './session.js';
 
 export const navigateSchema = z.object({
   url: z.string().describe('the url to navigate to'),
@@ -8,12 +9,14 @@ export const navigateSchema = z.object({
     .optional()
     .default('load')
     .describe('when to consider navigation complete'),
+  session: sessionArg,
 });
 
 export async function navigate(args: z.infer<typeof navigateSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
-    const config = sessionManager.getConfig();
+    const page = await session.ensureBrowser();
+    const config = await sessionManager.getConfig();
 
     let url = args.url;
     if (!url.startsWith('http://') && !url.startsWith('https://')) {
@@ -39,7 +42,9 @@ export async function navigate(args: z.infer<typeof navigateSchema>) {
       content: [
         {
           type: 'text' as const,
-          text: `error: ${message}\nsuggestion: check if the url is correct and the server is running`,
+          text: message.includes('ERR_CONNECTION_REFUSED') || message.includes('NS_ERROR_CONNECTION_REFUSED') || message.includes('Could not connect')
+            ? `error: ${message}\nsuggestion: nothing is listening there; start it with start_dev_server or check the url`
+            : `error: ${message}\nsuggestion: check if the url is correct and the server is running`,
         },
       ],
     };
@@ -52,11 +57,13 @@ export const reloadSchema = z.object({
     .optional()
     .default('load')
     .describe('when to consider reload complete'),
+  session: sessionArg,
 });
 
 export async function reload(args: z.infer<typeof reloadSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     await page.reload({ waitUntil: args.waitUntil });
 
     const title = await page.title();
@@ -83,11 +90,14 @@ export async function reload(args: z.infer<typeof reloadSchema>) {
   }
 }
 
-export const goBackSchema = z.object({});
+export const goBackSchema = z.object({
+  session: sessionArg,
+});
 
-export async function goBack() {
+export async function goBack(args: z.infer<typeof goBackSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     const response = await page.goBack();
 
     if (!response) {
@@ -125,11 +135,14 @@ export async function goBack() {
   }
 }
 
-export const goForwardSchema = z.object({});
+export const goForwardSchema = z.object({
+  session: sessionArg,
+});
 
-export async function goForward() {
+export async function goForward(args: z.infer<typeof goForwardSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     const response = await page.goForward();
 
     if (!response) {
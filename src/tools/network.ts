@@ -1,7 +1,17 @@
 import { z } from 'zod';
+import { existsSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { JSONPath } from 'jsonpath-plus';
 import { sessionManager } from '../session/manager.js';
+import { writeHar } from '../session/har.js';
+import { SERVER_INFO } from '../version.js';
+import { bodyKind, formatBytes, mimeType } from '../session/bodies.js';
+import { evictionNote, sessionArg } from './session.js';
+import { HarReplay, NetworkConditions, NetworkRequestEntry, RouteMock } from '../session/types.js';
 
-export const getNetworkRequestsSchema = z.object({
+// Shared by the tools that select from the captured request log
+const networkFilterArgs = {
   urlPattern: z
     .string()
     .optional()
@@ -17,21 +27,75 @@ export const getNetworkRequestsSchema = z.object({
   failed: z
     .boolean()
     .optional()
-    .describe('only show failed requests (4xx, 5xx, or no response)'),
+    .describe('only show failed requests (4xx, 5xx, graphql errors, or network errors such as dns, cors or aborted)'),
+  tabId: z
+    .string()
+    .optional()
+    .describe('only requests from this tab'),
+  operationName: z
+    .string()
+    .optional()
+    .describe('only graphql requests for this operation name'),
+};
+
+/**
+ * FAILED with the browser's reason, the http status, or PENDING while
+ * neither has arrived. GraphQL errors fail a request whatever its status.
+ */
+export function requestStatus(req: NetworkRequestEntry): string {
+  if (req.failure) {
+    return `FAILED (${req.failure})`;
+  }
+  if (!req.response) {
+    return 'PENDING';
+  }
+  if (req.graphqlErrors) {
+    return `${req.response.status} FAILED (graphql errors: ${req.graphqlErrors.join('; ')})`;
+  }
+  return String(req.response.status);
+}
+
+export function describeRequestMatch(args: { urlPattern?: string; operationName?: string }): string {
+  const parts: string[] = [];
+  if (args.urlPattern) parts.push(`"${args.urlPattern}"`);
+  if (args.operationName) parts.push(`operation "${args.operationName}"`);
+  return parts.join(' and ');
+}
+
+/**
+ * " [query GetUser]" for GraphQL requests, so a list of identical POST
+ * /graphql lines can be told apart.
+ */
+export function graphqlLabel(req: NetworkRequestEntry): string {
+  if (!req.graphql) {
+    return '';
+  }
+  const operations = req.graphql.map((op) => `${op.operationType} ${op.operationName ?? '(anonymous)'}`);
+  return ` [${operations.join(', ')}]`;
+}
+
+export const getNetworkRequestsSchema = z.object({
+  ...networkFilterArgs,
   limit: z
     .number()
     .optional()
     .default(20)
     .describe('maximum number of requests to return'),
+  session: sessionArg,
 });
 
 export async function getNetworkRequests(args: z.infer<typeof getNetworkRequestsSchema>) {
-  const requests = sessionManager.getNetworkRequests({
+  const session = await sessionManager.getSession(args.session);
+  const filter = {
     urlPattern: args.urlPattern,
     methods: args.methods,
     statusCodes: args.statusCodes,
-    failed: args.failed,
-  });
+    tabId: args.tabId,
+    operationName: args.operationName,
+  };
+  // Whether a GraphQL request failed can depend on a body still being read
+  await session.settleGraphQLChecks(session.getNetworkRequests(filter));
+  const requests = session.getNetworkRequests({ ...filter, failed: args.failed });
 
   const limited = requests.slice(-args.limit!);
 
@@ -40,7 +104,7 @@ export async function getNetworkRequests(args: z.infer<typeof getNetworkRequests
       content: [
         {
           type: 'text' as const,
-          text: 'no network requests matching filters',
+          text: `no network requests matching filters${evictionNote(session.getStats().network, 'requests were')}`,
         },
       ],
     };
@@ -48,9 +112,20 @@ export async function getNetworkRequests(args: z.infer<typeof getNetworkRequests
 
   const formatted = limited
     .map((req) => {
-      const status = req.response?.status ?? 'PENDING';
+      const status = requestStatus(req);
       const duration = req.duration ? `${req.duration}ms` : 'N/A';
-      return `${req.method} ${req.url}\n  status: ${status}, duration: ${duration}`;
+      const tab = req.tabId ? `, tab: ${req.tabId}` : '';
+      const profile = req.networkProfile ? `, network: ${req.networkProfile}` : '';
+      const mocked = req.mocked ? `, mocked: ${req.mocked}` : '';
+      const replayed = req.replayed ? ', replayed from HAR' : '';
+      const from = req.redirectedFrom ? session.getNetworkRequest(req.redirectedFrom) : undefined;
+      const to = req.redirectedTo ? session.getNetworkRequest(req.redirectedTo) : undefined;
+      const redirects = `${from ? `\n  redirected from ${from.url}` : ''}${to ? `\n  redirected to ${to.url}` : ''}`;
+      const variables = req.graphql
+        ?.filter((op) => op.variables)
+        .map((op) => `\n  variables: ${op.variables!.length > 200 ? `${op.variables!.slice(0, 200)}...` : op.variables}`)
+        .join('') ?? '';
+      return `${req.method} ${req.url}${graphqlLabel(req)}${variables}\n  status: ${status}, duration: ${duration}${tab}${profile}${mocked}${replayed}${redirects}`;
     })
     .join('\n\n');
 
@@ -58,24 +133,146 @@ export async function getNetworkRequests(args: z.infer<typeof getNetworkRequests
     content: [
       {
         type: 'text' as const,
-        text: `network requests (${limited.length}):\n\n${formatted}`,
+        text: `network requests (${limited.length}):\n\n${formatted}${evictionNote(session.getStats().network, 'requests were')}`,
       },
     ],
   };
 }
 
+/**
+ * Resolves a file name under the configured artifacts directory, refusing
+ * paths that would land outside it.
+ */
+export async function artifactPath(name: string): Promise<string> {
+  const { artifactsDir } = await sessionManager.getConfig();
+  const path = resolve(artifactsDir, name);
+  const inside = relative(artifactsDir, path);
+  if (inside.startsWith('..') || isAbsolute(inside)) {
+    throw new Error(
+      `${name} is outside the artifacts directory ${artifactsDir}\nsuggestion: pass a relative path, or set artifactsDir in the config file`
+    );
+  }
+  return path;
+}
+
+export const exportHarSchema = z.object({
+  ...networkFilterArgs,
+  path: z
+    .string()
+    .optional()
+    .describe('file path under the artifacts directory (default network-<timestamp>.har)'),
+  session: sessionArg,
+});
+
+export async function exportHar(args: z.infer<typeof exportHarSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const path = await artifactPath(args.path ?? `network-${new Date().toISOString().replace(/[:.]/g, '-')}.har`);
+
+    const requests = session.getNetworkRequests({
+      urlPattern: args.urlPattern,
+      methods: args.methods,
+      statusCodes: args.statusCodes,
+      failed: args.failed,
+      tabId: args.tabId,
+      operationName: args.operationName,
+    });
+
+    if (requests.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `no network requests matching filters; nothing written${evictionNote(session.getStats().network, 'requests were')}`,
+          },
+        ],
+      };
+    }
+
+    // Bodies are read one at a time and left out once the browser has dropped them
+    await mkdir(dirname(path), { recursive: true });
+    const { failed, mocked, unavailable } = await writeHar(path, requests, SERVER_INFO, (request) =>
+      session.readResponseBody(request).catch(() => undefined)
+    );
+
+    const missing = unavailable > 0 ? `\n${unavailable} response body(s) were no longer available from the browser` : '';
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `wrote ${requests.length} request(s) to ${path} (${failed} failed, ${mocked} mocked)${missing}${evictionNote(session.getStats().network, 'requests were')}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+const DEFAULT_BODY_LENGTH = 10000;
+
 export const getResponseBodySchema = z.object({
-  urlPattern: z.string().describe('url pattern to match'),
+  urlPattern: z
+    .string()
+    .optional()
+    .describe('url pattern to match'),
+  operationName: z
+    .string()
+    .optional()
+    .describe('graphql operation name to match, instead of or as well as urlPattern'),
   index: z
     .number()
     .optional()
     .default(-1)
     .describe('which matching request (-1 for latest)'),
+  jsonPath: z
+    .string()
+    .optional()
+    .describe('JSONPath selecting part of a json body, e.g. "$.data.items[0]" or "$..id" (no filter expressions)'),
+  offset: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('first character (text) or byte (binary) to return, for paging through large bodies'),
+  length: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(`number of characters or bytes to return (default ${DEFAULT_BODY_LENGTH})`),
+  saveTo: z
+    .string()
+    .optional()
+    .describe('write the full body to this path under the artifacts directory instead of returning it'),
+  session: sessionArg,
 });
 
 export async function getResponseBody(args: z.infer<typeof getResponseBodySchema>) {
-  const requests = sessionManager.getNetworkRequests({
+  const session = await sessionManager.getSession(args.session);
+
+  if (!args.urlPattern && !args.operationName) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'error: provide urlPattern or operationName',
+        },
+      ],
+    };
+  }
+
+  const requests = session.getNetworkRequests({
     urlPattern: args.urlPattern,
+    operationName: args.operationName,
   });
 
   if (requests.length === 0) {
@@ -83,7 +280,7 @@ export async function getResponseBody(args: z.infer<typeof getResponseBodySchema
       content: [
         {
           type: 'text' as const,
-          text: `error: no requests matching "${args.urlPattern}"\nsuggestion: check the url pattern or trigger the request first`,
+          text: `error: no requests matching ${describeRequestMatch(args)}\nsuggestion: check the url pattern or operation name, or trigger the request first`,
         },
       ],
     };
@@ -103,6 +300,17 @@ export async function getResponseBody(args: z.infer<typeof getResponseBodySchema
     };
   }
 
+  if (request.failure) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `request to ${request.url} failed before a response arrived: ${request.failure}`,
+        },
+      ],
+    };
+  }
+
   if (!request.response) {
     return {
       content: [
@@ -114,31 +322,150 @@ export async function getResponseBody(args: z.infer<typeof getResponseBodySchema
     };
   }
 
-  if (!request.response.body) {
+  let body: Buffer;
+  try {
+    body = await session.getResponseBody(request);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
     return {
       content: [
         {
           type: 'text' as const,
-          text: `no response body available for ${request.url}\nstatus: ${request.response.status}`,
+          text: `error: ${message}\nstatus: ${request.response.status}\nsuggestion: bodies are read from the browser on demand; reproduce the request and read it before navigating away`,
         },
       ],
     };
   }
 
-  return {
-    content: [
-      {
-        type: 'text' as const,
-        text: `response body for ${request.method} ${request.url}:\nstatus: ${request.response.status}\n\n${request.response.body}`,
-      },
-    ],
-  };
+  const type = mimeType(request.response.headers);
+  const kind = bodyKind(type, body);
+  const heading = `response body for ${request.method} ${request.url}${graphqlLabel(request)}:\nstatus: ${request.response.status}, type: ${type || 'unknown'}, size: ${formatBytes(body.length)}`;
+
+  try {
+    if (args.saveTo) {
+      const path = await artifactPath(args.saveTo);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, body);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `${heading}\n\nsaved to ${path}`,
+          },
+        ],
+      };
+    }
+
+    const paged = args.offset !== undefined || args.length !== undefined;
+    const offset = args.offset ?? 0;
+    const length = args.length ?? DEFAULT_BODY_LENGTH;
+
+    if (kind === 'image' && !paged) {
+      return {
+        content: [
+          {
+            type: 'image' as const,
+            data: body.toString('base64'),
+            mimeType: type,
+          },
+          {
+            type: 'text' as const,
+            text: heading,
+          },
+        ],
+      };
+    }
+
+    if (kind !== 'text') {
+      if (!paged) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `${heading}\n\nbinary body not shown\nsuggestion: use saveTo to write it to a file, or offset/length to read a byte range as base64`,
+            },
+          ],
+        };
+      }
+      const end = Math.min(body.length, offset + length);
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `${heading}\nbytes ${offset}-${end} as base64:\n\n${body.subarray(offset, end).toString('base64')}${pageNote('bytes', end, body.length, offset)}`,
+          },
+        ],
+      };
+    }
+
+    let text = body.toString('utf-8');
+    if (args.jsonPath) {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `error: jsonPath needs a json body, but the body of ${request.url} is not valid json`,
+            },
+          ],
+        };
+      }
+      // Filter expressions would run script from the tool arguments
+      const matches = JSONPath({ path: args.jsonPath, json: json as object, wrap: true, eval: false }) as unknown[];
+      if (matches.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `${heading}\n\nno matches for ${args.jsonPath}`,
+            },
+          ],
+        };
+      }
+      text = JSON.stringify(matches.length === 1 ? matches[0] : matches, null, 2);
+    }
+
+    const end = Math.min(text.length, offset + length);
+    const label = args.jsonPath ? `${heading}\nselected ${args.jsonPath}` : heading;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `${label}\n\n${text.slice(offset, end)}${pageNote('chars', end, text.length, offset)}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
 }
 
-export const clearNetworkSchema = z.object({});
+function pageNote(unit: 'chars' | 'bytes', end: number, total: number, offset = 0): string {
+  if (end >= total && offset === 0) {
+    return '';
+  }
+  const more = end < total ? `; use offset ${end} for more` : '';
+  return `\n\n[${unit} ${offset}-${end} of ${total}${more}]`;
+}
 
-export async function clearNetwork() {
-  sessionManager.clearNetworkRequests();
+export const clearNetworkSchema = z.object({
+  session: sessionArg,
+});
+
+export async function clearNetwork(args: z.infer<typeof clearNetworkSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  session.clearNetworkRequests();
 
   return {
     content: [
@@ -156,11 +483,13 @@ export const waitForNetworkIdleSchema = z.object({
     .optional()
     .default(30000)
     .describe('timeout in ms'),
+  session: sessionArg,
 });
 
 export async function waitForNetworkIdle(args: z.infer<typeof waitForNetworkIdleSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     await page.waitForLoadState('networkidle', { timeout: args.timeout });
 
     return {
@@ -183,3 +512,353 @@ export async function waitForNetworkIdle(args: z.infer<typeof waitForNetworkIdle
     };
   }
 }
+
+// Same numbers as the Chrome DevTools throttling presets (throughput in bytes/s)
+const NETWORK_PRESETS: Record<string, Omit<NetworkConditions, 'name'>> = {
+  'Slow 3G': { offline: false, latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 },
+  'Fast 3G': { offline: false, latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 },
+  offline: { offline: true, latency: 0, downloadThroughput: -1, uploadThroughput: -1 },
+};
+
+export function formatNetworkConditions(conditions: NetworkConditions): string {
+  if (conditions.offline) {
+    return `${conditions.name} (no network)`;
+  }
+  const kbps = (bytes: number) => (bytes < 0 ? 'unlimited' : `${Math.round((bytes * 8) / 1000)} kbps`);
+  return `${conditions.name} (${conditions.latency}ms latency, ${kbps(conditions.downloadThroughput)} down, ${kbps(conditions.uploadThroughput)} up)`;
+}
+
+export const setNetworkConditionsSchema = z.object({
+  preset: z
+    .enum(['Slow 3G', 'Fast 3G', 'offline', 'none'])
+    .optional()
+    .describe('named profile; "none" restores full speed'),
+  latency: z
+    .number()
+    .optional()
+    .describe('custom added round-trip latency in ms'),
+  downloadKbps: z
+    .number()
+    .optional()
+    .describe('custom download throughput in kbit/s'),
+  uploadKbps: z
+    .number()
+    .optional()
+    .describe('custom upload throughput in kbit/s'),
+  session: sessionArg,
+});
+
+export async function setNetworkConditions(args: z.infer<typeof setNetworkConditionsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const custom = args.latency !== undefined || args.downloadKbps !== undefined || args.uploadKbps !== undefined;
+
+    let conditions: NetworkConditions | null;
+    if (args.preset === 'none' && !custom) {
+      conditions = null;
+    } else if (args.preset && args.preset !== 'none') {
+      conditions = { name: args.preset, ...NETWORK_PRESETS[args.preset] };
+    } else if (custom) {
+      conditions = { name: 'custom', offline: false, latency: 0, downloadThroughput: -1, uploadThroughput: -1 };
+    } else {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: provide a preset or at least one of latency, downloadKbps, uploadKbps',
+          },
+        ],
+      };
+    }
+
+    // Custom values refine a preset, e.g. "Fast 3G" with extra latency
+    if (conditions && custom) {
+      if (args.latency !== undefined) conditions.latency = args.latency;
+      if (args.downloadKbps !== undefined) conditions.downloadThroughput = (args.downloadKbps * 1000) / 8;
+      if (args.uploadKbps !== undefined) conditions.uploadThroughput = (args.uploadKbps * 1000) / 8;
+      if (args.preset && args.preset !== 'none') conditions.name = `${args.preset} (custom)`;
+    }
+
+    await session.setNetworkConditions(conditions);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: conditions
+            ? `network conditions set: ${formatNetworkConditions(conditions)}`
+            : 'network conditions cleared (full speed)',
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}${session.engine !== 'chromium' ? '\nsuggestion: the "offline" preset works on every engine' : ''}`,
+        },
+      ],
+    };
+  }
+}
+
+function formatMock(mock: RouteMock): string {
+  const match = `${mock.method ?? 'ANY'} ${mock.regex ? `/${mock.url}/` : mock.url}`;
+  const response = mock.abort
+    ? `abort (${mock.abort})`
+    : `${mock.status ?? 200}${mock.bodyFile ? ` from ${mock.bodyFile}` : mock.body ? ` (${mock.body.length} chars)` : ''}`;
+  const delay = mock.delay ? `, delay ${mock.delay}ms` : '';
+  const hits = mock.times !== undefined ? `${mock.hits}/${mock.times}` : `${mock.hits}`;
+  return `${mock.id}: ${match} -> ${response}${delay}, hits: ${hits}`;
+}
+
+export const mockRouteSchema = z.object({
+  url: z.string().describe('url glob (e.g. "**/api/users*") or regex source when regex is true'),
+  regex: z
+    .boolean()
+    .optional()
+    .describe('treat url as a regular expression'),
+  method: z
+    .string()
+    .optional()
+    .describe('only mock this http method'),
+  status: z
+    .number()
+    .optional()
+    .describe('response status (default 200)'),
+  headers: z
+    .record(z.string())
+    .optional()
+    .describe('response headers'),
+  body: z
+    .string()
+    .optional()
+    .describe('response body; json bodies get an application/json content type'),
+  bodyFile: z
+    .string()
+    .optional()
+    .describe('path to a fixture file to serve as the body'),
+  delay: z
+    .number()
+    .optional()
+    .describe('wait this many ms before responding'),
+  abort: z
+    .enum([
+      'aborted',
+      'accessdenied',
+      'addressunreachable',
+      'blockedbyclient',
+      'connectionaborted',
+      'connectionclosed',
+      'connectionfailed',
+      'connectionrefused',
+      'connectionreset',
+      'internetdisconnected',
+      'namenotresolved',
+      'timedout',
+      'failed',
+    ])
+    .optional()
+    .describe('fail the request with this network error instead of responding'),
+  times: z
+    .number()
+    .optional()
+    .describe('stop mocking after this many matching requests'),
+  session: sessionArg,
+});
+
+export async function mockRoute(args: z.infer<typeof mockRouteSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    if (args.body !== undefined && args.bodyFile) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: provide body or bodyFile, not both',
+          },
+        ],
+      };
+    }
+
+    const mock = await session.addMock({
+      url: args.url,
+      regex: args.regex,
+      method: args.method,
+      status: args.status,
+      headers: args.headers,
+      body: args.body,
+      bodyFile: args.bodyFile,
+      delay: args.delay,
+      abort: args.abort,
+      times: args.times,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `mock added: ${formatMock(mock)}\napplies to every tab, including after navigation; remove it with unmock_route`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const unmockRouteSchema = z.object({
+  id: z
+    .string()
+    .optional()
+    .describe('mock id from list_mocks (omit to remove all mocks)'),
+  session: sessionArg,
+});
+
+export async function unmockRoute(args: z.infer<typeof unmockRouteSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const removed = await session.removeMock(args.id);
+
+  if (args.id && removed === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: no mock with id "${args.id}"\nsuggestion: use list_mocks to see active mocks`,
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: args.id ? `removed ${args.id}` : `removed ${removed} mock(s)`,
+      },
+    ],
+  };
+}
+
+export const listMocksSchema = z.object({
+  session: sessionArg,
+});
+
+export async function listMocks(args: z.infer<typeof listMocksSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const mocks = session.getMocks();
+  const replay = session.getHarReplay();
+
+  const lines = [mocks.length > 0 ? `mocks (${mocks.length}):\n${mocks.map(formatMock).join('\n')}` : 'no mocks active'];
+  if (replay) {
+    lines.push(`\nreplaying HAR: ${formatHarReplay(replay)}`);
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: lines.join('\n'),
+      },
+    ],
+  };
+}
+
+function formatHarReplay(replay: HarReplay): string {
+  const scope = replay.url ? ` for ${replay.regex ? `/${replay.url}/` : replay.url}` : '';
+  const unmatched = replay.mode === 'strict' ? 'unmatched requests are aborted' : 'unmatched requests go to the network';
+  return `${replay.path}${scope} (${replay.mode}: ${unmatched})`;
+}
+
+export const replayHarSchema = z.object({
+  path: z.string().describe('HAR file to serve responses from (relative paths are also looked up in the artifacts directory)'),
+  url: z
+    .string()
+    .optional()
+    .describe('only replay requests matching this glob (or regex when regex is true); default all'),
+  regex: z
+    .boolean()
+    .optional()
+    .describe('treat url as a regular expression'),
+  mode: z
+    .enum(['strict', 'fallthrough'])
+    .optional()
+    .describe('strict aborts requests missing from the HAR; fallthrough (default) sends them to the network'),
+  session: sessionArg,
+});
+
+export async function replayHar(args: z.infer<typeof replayHarSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const config = await sessionManager.getConfig();
+    // export_har writes to the artifacts directory, so look there too
+    const path = [resolve(args.path), resolve(config.artifactsDir, args.path)].find((p) => existsSync(p));
+
+    if (!path) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `error: HAR file not found: ${args.path}\nsuggestion: use export_har to capture one, or pass an absolute path`,
+          },
+        ],
+      };
+    }
+
+    const replay: HarReplay = {
+      path,
+      url: args.url,
+      regex: args.regex,
+      mode: args.mode ?? 'fallthrough',
+      startedAt: Date.now(),
+    };
+    await session.replayHar(replay);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `replaying HAR: ${formatHarReplay(replay)}\nreplayed requests are flagged in get_network_requests; stop with stop_har_replay`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const stopHarReplaySchema = z.object({
+  session: sessionArg,
+});
+
+export async function stopHarReplay(args: z.infer<typeof stopHarReplaySchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const stopped = await session.stopHarReplay();
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: stopped ? 'HAR replay stopped; requests go to the network again' : 'no HAR replay active',
+      },
+    ],
+  };
+}
@@ -1,33 +1,47 @@
 import { z } from 'zod';
 import { sessionManager } from '../session/manager.js';
+import { evictionNote, sessionArg } from './session.js';
+import { formatEmulation, formatMedia } from './emulation.js';
+import { describeRequestMatch, formatNetworkConditions, graphqlLabel } from './network.js';
+import { errorSourceArg, errorTypes, groupConsoleLogs } from './console.js';
 
-export const getPageStateSchema = z.object({});
+export const getPageStateSchema = z.object({
+  session: sessionArg,
+});
 
-export async function getPageState() {
+export async function getPageState(args: z.infer<typeof getPageStateSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
-    const config = sessionManager.getConfig();
-
+    const page = await session.ensureBrowser();
     const url = page.url();
     const title = await page.title();
 
-    const errors = sessionManager.getConsoleLogs({ types: ['error'] });
+    const errors = session.getConsoleLogs({ types: ['error', 'pageerror'] });
     const recentErrors = errors.slice(-5);
 
     const viewport = page.viewportSize();
+    const device = session.getDevice();
+    const networkConditions = session.getNetworkConditions();
+    const tabs = await session.listTabs();
 
     const lines = [
       `url: ${url}`,
       `title: "${title}"`,
-      `viewport: ${viewport?.width}x${viewport?.height}`,
-      `console errors: ${errors.length}`,
+      `browser: ${session.engine}${session.isAttached() ? ' (attached over cdp)' : ''}`,
+      `viewport: ${viewport?.width}x${viewport?.height}${device.name ? ` (${device.name})` : ''}`,
+      `tabs: ${tabs.length} (active: ${session.getActiveTabId()})`,
+      ...formatEmulation(session.getEmulation()),
+      ...(formatMedia(session.getMedia()) ? [`media: ${formatMedia(session.getMedia())}`] : []),
+      `network: ${networkConditions ? formatNetworkConditions(networkConditions) : 'unthrottled'}`,
+      `console errors: ${errors.filter((e) => e.type === 'error').length}`,
+      `uncaught exceptions: ${errors.filter((e) => e.type === 'pageerror').length}`,
     ];
 
     if (recentErrors.length > 0) {
       lines.push('');
       lines.push('recent errors:');
       for (const err of recentErrors) {
-        lines.push(`  - ${err.text.substring(0, 100)}`);
+        lines.push(`  - ${err.type === 'pageerror' ? '[UNCAUGHT] ' : ''}${err.text.substring(0, 100)}`);
       }
     }
 
@@ -61,16 +75,22 @@ export const verifyNoErrorsSchema = z.object({
     .array(z.string())
     .optional()
     .describe('regex patterns for errors to ignore'),
+  source: errorSourceArg,
+  session: sessionArg,
 });
 
 export async function verifyNoErrors(args: z.infer<typeof verifyNoErrorsSchema>) {
-  let errors = sessionManager.getConsoleLogs({
-    types: ['error'],
+  const session = await sessionManager.getSession(args.session);
+  const config = await sessionManager.getConfig();
+  let errors = session.getConsoleLogs({
+    types: errorTypes(args.source),
     since: args.since,
   });
 
-  if (args.ignorePatterns && args.ignorePatterns.length > 0) {
-    const patterns = args.ignorePatterns.map((p) => new RegExp(p));
+  // Project-wide ignore patterns from the config file always apply
+  const ignorePatterns = [...config.ignorePatterns, ...(args.ignorePatterns ?? [])];
+  if (ignorePatterns.length > 0) {
+    const patterns = ignorePatterns.map((p) => new RegExp(p));
     errors = errors.filter((e) => !patterns.some((p) => p.test(e.text)));
   }
 
@@ -79,22 +99,34 @@ export async function verifyNoErrors(args: z.infer<typeof verifyNoErrorsSchema>)
       content: [
         {
           type: 'text' as const,
-          text: 'PASS: no console errors detected',
+          text: (args.source === 'pageerror'
+            ? 'PASS: no uncaught exceptions or unhandled rejections detected'
+            : args.source === 'console'
+              ? 'PASS: no console errors detected'
+              : 'PASS: no console errors or uncaught exceptions detected') + evictionNote(session.getStats().console, 'console entries were'),
         },
       ],
     };
   }
 
-  const errorList = errors
+  // One line per distinct problem, so a noisy loop can't hide the others
+  const groups = groupConsoleLogs(errors).sort((a, b) => a.first - b.first);
+  const errorList = groups
     .slice(0, 10)
-    .map((e) => `- ${e.text.substring(0, 100)}`)
+    .map((g) => `- ${g.type === 'pageerror' ? '[UNCAUGHT] ' : ''}${g.sample.substring(0, 100)}${g.count > 1 ? ` (x${g.count})` : ''}`)
     .join('\n');
 
+  const uncaught = groups.filter((g) => g.type === 'pageerror').length;
+  const summary = [
+    groups.length - uncaught > 0 ? `${groups.length - uncaught} console` : '',
+    uncaught > 0 ? `${uncaught} uncaught` : '',
+  ].filter(Boolean).join(', ');
+
   return {
     content: [
       {
         type: 'text' as const,
-        text: `FAIL: ${errors.length} console error(s) detected\n\n${errorList}${errors.length > 10 ? `\n... and ${errors.length - 10} more` : ''}`,
+        text: `FAIL: ${groups.length} distinct error(s) detected (${summary}; ${errors.length} occurrence(s))\n\n${errorList}${groups.length > 10 ? `\n... and ${groups.length - 10} more` : ''}${evictionNote(session.getStats().console, 'console entries were')}`,
       },
     ],
   };
@@ -118,11 +150,13 @@ export const verifyElementSchema = z.object({
     })
     .optional()
     .describe('expected attribute'),
+  session: sessionArg,
 });
 
 export async function verifyElement(args: z.infer<typeof verifyElementSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
     const locator = page.locator(args.selector);
 
     let stateResult: { pass: boolean; message: string };
@@ -215,17 +249,39 @@ export async function verifyElement(args: z.infer<typeof verifyElementSchema>) {
 }
 
 export const verifyRequestSucceededSchema = z.object({
-  urlPattern: z.string().describe('url pattern to check'),
+  urlPattern: z
+    .string()
+    .optional()
+    .describe('url pattern to check'),
+  operationName: z
+    .string()
+    .optional()
+    .describe('graphql operation name to check, instead of or as well as urlPattern'),
   expectedStatus: z
     .number()
     .optional()
     .default(200)
     .describe('expected http status code'),
+  session: sessionArg,
 });
 
 export async function verifyRequestSucceeded(args: z.infer<typeof verifyRequestSucceededSchema>) {
-  const requests = sessionManager.getNetworkRequests({
+  const session = await sessionManager.getSession(args.session);
+
+  if (!args.urlPattern && !args.operationName) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'error: provide urlPattern or operationName',
+        },
+      ],
+    };
+  }
+
+  const requests = session.getNetworkRequests({
     urlPattern: args.urlPattern,
+    operationName: args.operationName,
   });
 
   if (requests.length === 0) {
@@ -233,20 +289,55 @@ export async function verifyRequestSucceeded(args: z.infer<typeof verifyRequestS
       content: [
         {
           type: 'text' as const,
-          text: `FAIL: no requests matching "${args.urlPattern}" found\nsuggestion: trigger the action that makes this request first`,
+          text: `FAIL: no requests matching ${describeRequestMatch(args)} found\nsuggestion: trigger the action that makes this request first${evictionNote(session.getStats().network, 'requests were')}`,
         },
       ],
     };
   }
 
-  const latest = requests[requests.length - 1];
+  let latest = requests[requests.length - 1];
+
+  // Judge where a redirect chain ends unless the redirect itself is expected
+  const hops: string[] = [];
+  const expectsRedirect = args.expectedStatus >= 300 && args.expectedStatus < 400;
+  while (latest.redirectedTo && !expectsRedirect) {
+    const next = session.getNetworkRequest(latest.redirectedTo);
+    if (!next) break;
+    hops.push(`${latest.response?.status ?? '?'} -> ${next.url}`);
+    latest = next;
+  }
+  const via = hops.length > 0 ? `\nredirects: ${hops.join(', ')}` : '';
+  await session.settleGraphQLChecks([latest]);
+
+  if (latest.failure) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `FAIL: request to ${latest.url} FAILED: ${latest.failure}${via}\nsuggestion: check the url, the server, and cors headers for cross-origin requests`,
+        },
+      ],
+    };
+  }
 
   if (!latest.response) {
     return {
       content: [
         {
           type: 'text' as const,
-          text: `PENDING: request to ${latest.url} is still in progress`,
+          text: `PENDING: request to ${latest.url} is still in progress${via}`,
+        },
+      ],
+    };
+  }
+
+  const label = `${latest.url}${graphqlLabel(latest)}`;
+  if (latest.graphqlErrors) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `FAIL: request to ${label} returned ${latest.response.status} with graphql errors:\n${latest.graphqlErrors.map((e) => `  - ${e}`).join('\n')}${via}`,
         },
       ],
     };
@@ -259,8 +350,8 @@ export async function verifyRequestSucceeded(args: z.infer<typeof verifyRequestS
       {
         type: 'text' as const,
         text: passed
-          ? `PASS: request to ${latest.url} returned ${latest.response.status}`
-          : `FAIL: request to ${latest.url} returned ${latest.response.status}, expected ${args.expectedStatus}`,
+          ? `PASS: request to ${label} returned ${latest.response.status}${via}`
+          : `FAIL: request to ${label} returned ${latest.response.status}, expected ${args.expectedStatus}${via}`,
       },
     ],
   };
@@ -273,11 +364,13 @@ export const verifyTextOnPageSchema = z.object({
     .optional()
     .default(false)
     .describe('require exact match'),
+  session: sessionArg,
 });
 
 export async function verifyTextOnPage(args: z.infer<typeof verifyTextOnPageSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const page = await sessionManager.ensureBrowser();
+    const page = await session.ensureBrowser();
 
     const bodyText = await page.evaluate(() => document.body.innerText);
 
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { dirname } from 'path';
+import { sessionManager } from '../session/manager.js';
+import { hostAndPort, listeningAddress } from '../session/dev-server.js';
+import { DevServerLogEntry } from '../session/types.js';
+
+function formatLogs(logs: DevServerLogEntry[]): string {
+  return logs
+    .map((entry) => `${entry.stream === 'stderr' ? '[ERR] ' : ''}${entry.text}`)
+    .join('\n');
+}
+
+export const startDevServerSchema = z.object({
+  timeout: z
+    .number()
+    .optional()
+    .default(60000)
+    .describe('how long to wait for the base url port to accept connections, in ms'),
+});
+
+export async function startDevServer(args: z.infer<typeof startDevServerSchema>) {
+  try {
+    const { config, sources, file } = await sessionManager.loadConfig();
+    const command = config.devServer;
+
+    if (!command) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'error: no dev server command configured\nsuggestion: set "devServer" in claude-eyes.config.json, or set DEV_SERVER_COMMAND',
+          },
+        ],
+      };
+    }
+
+    const current = sessionManager.getDevServer();
+    if (current?.isRunning()) {
+      const status = current.getStatus();
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `dev server already running (pid ${status.pid}): ${status.command}\nsuggestion: use stop_dev_server first to restart it`,
+          },
+        ],
+      };
+    }
+
+    const { host, port } = hostAndPort(config.baseUrl);
+    const address = await listeningAddress(host, port);
+    if (address) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `something is already listening on ${address}:${port}; not starting "${command}"\nsuggestion: navigate to ${config.baseUrl} directly`,
+          },
+        ],
+      };
+    }
+
+    // Commands from the config file run next to it, like its relative paths
+    const cwd = sources.devServer === 'file' && file ? dirname(file) : process.cwd();
+    const server = sessionManager.startDevServer(command, cwd);
+
+    try {
+      await server.waitForPort(config.baseUrl, args.timeout);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const tail = formatLogs(server.getLogs({ limit: 20 }));
+      await server.stop();
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `error: ${message}${tail ? `\n\nlast output:\n${tail}` : ''}\nsuggestion: check the command and that BASE_URL matches the port it serves on`,
+          },
+        ],
+      };
+    }
+
+    const status = server.getStatus();
+    const seconds = ((Date.now() - status.startedAt) / 1000).toFixed(1);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `dev server ready on ${host}:${port} after ${seconds}s\ncommand: ${command}\ncwd: ${cwd}\npid: ${status.pid}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const stopDevServerSchema = z.object({});
+
+export async function stopDevServer() {
+  try {
+    const server = sessionManager.getDevServer();
+    const stopped = await sessionManager.stopDevServer();
+
+    if (!stopped || !server) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: 'no dev server running',
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `dev server stopped (${server.getStatus().signal ?? `exit code ${server.getStatus().exitCode}`})`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const devServerLogsSchema = z.object({
+  stream: z
+    .enum(['stdout', 'stderr'])
+    .optional()
+    .describe('only one output stream'),
+  search: z
+    .string()
+    .optional()
+    .describe('only lines containing this text'),
+  limit: z
+    .number()
+    .optional()
+    .default(100)
+    .describe('maximum number of lines to return (most recent)'),
+});
+
+export async function devServerLogs(args: z.infer<typeof devServerLogsSchema>) {
+  const server = sessionManager.getDevServer();
+
+  if (!server) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'no dev server has been started\nsuggestion: use start_dev_server',
+        },
+      ],
+    };
+  }
+
+  const status = server.getStatus();
+  const state = status.running
+    ? `running (pid ${status.pid}${status.ready ? '' : ', not ready yet'})`
+    : status.signal
+      ? `stopped (${status.signal})`
+      : `exited with code ${status.exitCode ?? 'unknown'}`;
+  const logs = server.getLogs({ stream: args.stream, search: args.search, limit: args.limit });
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `dev server ${state}: ${status.command}\n\n${logs.length > 0 ? formatLogs(logs) : 'no output captured'}`,
+      },
+    ],
+  };
+}
@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { sessionManager, DEFAULT_SESSION } from '../session/manager.js';
+import { BufferStats } from '../session/types.js';
+
+export const sessionArg = z
+  .string()
+  .optional()
+  .describe(`session made with create_session (defaults to "${DEFAULT_SESSION}")`);
+
+export const createSessionSchema = z.object({
+  name: z.string().describe('name for the new session, e.g. "alice"'),
+  browser: z
+    .enum(['chromium', 'firefox', 'webkit'])
+    .optional()
+    .describe('browser engine for this session (defaults to the BROWSER setting)'),
+  url: z
+    .string()
+    .optional()
+    .describe('url to open once the session starts'),
+});
+
+export async function createSession(args: z.infer<typeof createSessionSchema>) {
+  if (sessionManager.hasSession(args.name)) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: session "${args.name}" already exists\nsuggestion: pass session: "${args.name}" to other tools, or destroy_session first`,
+        },
+      ],
+    };
+  }
+
+  try {
+    const session = await sessionManager.createSession(args.name, {
+      browser: args.browser,
+    });
+    const page = await session.ensureBrowser();
+
+    if (args.url) {
+      const config = await sessionManager.getConfig();
+      let url = args.url;
+      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        url = config.baseUrl + (url.startsWith('/') ? url : '/' + url);
+      }
+      await page.goto(url);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `session "${args.name}" created (${session.engine})\nurl: ${page.url()}`,
+        },
+      ],
+    };
+  } catch (err) {
+    await sessionManager.destroySession(args.name);
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const listSessionsSchema = z.object({});
+
+export async function listSessions() {
+  const sessions = await sessionManager.listSessions();
+
+  if (sessions.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: 'no sessions started',
+        },
+      ],
+    };
+  }
+
+  const formatted = sessions
+    .map((s) => {
+      if (!s.started) {
+        return `- ${s.name} [${s.browser}]: not started`;
+      }
+      return `- ${s.name} [${s.browser}]: ${s.tabs} tab(s), ${s.url ?? 'about:blank'}`;
+    })
+    .join('\n');
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `sessions (${sessions.length}):\n${formatted}`,
+      },
+    ],
+  };
+}
+
+export const destroySessionSchema = z.object({
+  name: z.string().describe('name of the session to destroy'),
+});
+
+export async function destroySession(args: z.infer<typeof destroySessionSchema>) {
+  const destroyed = await sessionManager.destroySession(args.name);
+
+  if (!destroyed) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: session "${args.name}" not found\nsuggestion: use list_sessions to see active sessions`,
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `session "${args.name}" destroyed (context, tabs and captured data discarded)`,
+      },
+    ],
+  };
+}
+
+export const getSessionEventsSchema = z.object({
+  session: sessionArg,
+});
+
+export async function getSessionEvents(args: z.infer<typeof getSessionEventsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const events = session.getEvents();
+
+  if (events.length === 0) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `no session events for "${session.name}"`,
+        },
+      ],
+    };
+  }
+
+  const formatted = events
+    .map((event) => {
+      const time = new Date(event.timestamp).toISOString().split('T')[1].split('.')[0];
+      return `[${event.type.toUpperCase()}] ${time}: ${event.message}`;
+    })
+    .join('\n');
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `session events for "${session.name}" (${events.length}):\n\n${formatted}${evictionNote(session.getStats().events, 'events were')}`,
+      },
+    ],
+  };
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Tool outputs built from a capped buffer append this so the reader knows
+ * older history is gone rather than absent.
+ */
+export function evictionNote(stats: BufferStats, what: string): string {
+  if (stats.evicted === 0) {
+    return '';
+  }
+  return `\n\nnote: ${stats.evicted} older ${what} evicted (limit ${stats.maxEntries} entries / ${formatMegabytes(stats.maxBytes)}); see get_session_stats`;
+}
+
+export const getSessionStatsSchema = z.object({
+  session: sessionArg,
+});
+
+export async function getSessionStats(args: z.infer<typeof getSessionStatsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const stats = session.getStats();
+  const memory = process.memoryUsage();
+
+  const line = (label: string, s: BufferStats) =>
+    `${label}: ${s.entries}/${s.maxEntries} entries, ${formatMegabytes(s.bytes)}/${formatMegabytes(s.maxBytes)}, ${s.evicted} evicted`;
+
+  const lines = [
+    `session: ${session.name}`,
+    line('console', stats.console),
+    line('network', stats.network),
+    line('screenshots', stats.screenshots),
+    line('dom snapshots', stats.domSnapshots),
+    line('response bodies', stats.responseBodies),
+    line('events', stats.events),
+    '',
+    `process: rss ${formatMegabytes(memory.rss)}, heap ${formatMegabytes(memory.heapUsed)}/${formatMegabytes(memory.heapTotal)}, buffers ${formatMegabytes(memory.arrayBuffers)}`,
+  ];
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: lines.join('\n'),
+      },
+    ],
+  };
+}
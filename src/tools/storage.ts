@@ -0,0 +1,607 @@
+import { z } from 'zod';
+import { readFile, mkdir } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { sessionManager } from '../session/manager.js';
+import { Cookie } from 'playwright';
+import { sessionArg } from './session.js';
+import { artifactPath } from './network.js';
+
+export const saveStorageStateSchema = z.object({
+  path: z.string().describe('file path under the artifacts directory to write the storage state json to'),
+  session: sessionArg,
+});
+
+export async function saveStorageState(args: z.infer<typeof saveStorageStateSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const path = await artifactPath(args.path);
+    await mkdir(dirname(path), { recursive: true });
+    const { cookies, origins } = await session.saveStorageState(path);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `storage state saved to ${path}\ncookies: ${cookies}, origins with localStorage: ${origins}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const loadStorageStateSchema = z.object({
+  path: z.string().describe('storage state json file written by save_storage_state (relative to the artifacts directory)'),
+  session: sessionArg,
+});
+
+export async function loadStorageState(args: z.infer<typeof loadStorageStateSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const { artifactsDir } = await sessionManager.getConfig();
+  const path = resolve(artifactsDir, args.path);
+
+  let state: { cookies?: unknown[]; origins?: unknown[] };
+  try {
+    state = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: could not read storage state from ${path}: ${message}\nsuggestion: create one with save_storage_state after logging in`,
+        },
+      ],
+    };
+  }
+
+  if (!Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${path} is not a playwright storage state file (expected "cookies" and "origins" arrays)`,
+        },
+      ],
+    };
+  }
+
+  try {
+    const page = await session.loadStorageState(path);
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `storage state loaded from ${path}\ncookies: ${state.cookies.length}, origins with localStorage: ${state.origins.length}\nurl: ${page.url()}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+function formatCookie(cookie: Cookie, full = false): string {
+  const value = !full && cookie.value.length > 80 ? cookie.value.substring(0, 80) + '...' : cookie.value;
+  const flags = [
+    cookie.httpOnly ? 'httpOnly' : '',
+    cookie.secure ? 'secure' : '',
+    cookie.sameSite ? `sameSite=${cookie.sameSite}` : '',
+    cookie.expires > 0 ? `expires ${new Date(cookie.expires * 1000).toISOString()}` : 'session',
+  ].filter(Boolean);
+  return `${cookie.name}=${value}\n  domain: ${cookie.domain}, path: ${cookie.path}, ${flags.join(', ')}`;
+}
+
+export const listCookiesSchema = z.object({
+  url: z
+    .string()
+    .optional()
+    .describe('only cookies sent to this url (defaults to all cookies in the session)'),
+  session: sessionArg,
+});
+
+export async function listCookies(args: z.infer<typeof listCookiesSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+    const cookies = await page.context().cookies(args.url ? [args.url] : []);
+
+    if (cookies.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: args.url ? `no cookies for ${args.url}` : 'no cookies set',
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `cookies (${cookies.length}):\n\n${cookies.map((c) => formatCookie(c)).join('\n\n')}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const getCookieSchema = z.object({
+  name: z.string().describe('cookie name'),
+  domain: z
+    .string()
+    .optional()
+    .describe('cookie domain, when several cookies share a name'),
+  session: sessionArg,
+});
+
+export async function getCookie(args: z.infer<typeof getCookieSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+    const cookies = (await page.context().cookies()).filter(
+      (c) => c.name === args.name && (!args.domain || c.domain === args.domain)
+    );
+
+    if (cookies.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `error: cookie "${args.name}" not found\nsuggestion: use list_cookies to see what is set`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: cookies.map((c) => formatCookie(c, true)).join('\n\n'),
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const setCookieSchema = z.object({
+  name: z.string().describe('cookie name'),
+  value: z.string().describe('cookie value'),
+  url: z
+    .string()
+    .optional()
+    .describe('url the cookie applies to (defaults to the current page)'),
+  domain: z.string().optional().describe('cookie domain (use instead of url)'),
+  path: z.string().optional().describe('cookie path (with domain)'),
+  expires: z
+    .number()
+    .optional()
+    .describe('unix time in seconds; omit for a session cookie'),
+  httpOnly: z.boolean().optional(),
+  secure: z.boolean().optional(),
+  sameSite: z.enum(['Strict', 'Lax', 'None']).optional(),
+  session: sessionArg,
+});
+
+export async function setCookie(args: z.infer<typeof setCookieSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+
+    let target: { url: string } | { domain: string; path: string };
+    if (args.domain) {
+      target = { domain: args.domain, path: args.path ?? '/' };
+    } else {
+      const url = args.url ?? page.url();
+      if (!url.startsWith('http')) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: 'error: no url to scope the cookie to\nsuggestion: navigate to a page first or pass url or domain',
+            },
+          ],
+        };
+      }
+      target = { url };
+    }
+
+    await page.context().addCookies([
+      {
+        name: args.name,
+        value: args.value,
+        ...target,
+        expires: args.expires,
+        httpOnly: args.httpOnly,
+        secure: args.secure,
+        sameSite: args.sameSite,
+      },
+    ]);
+
+    const scope = 'url' in target ? target.url : `${target.domain}${target.path}`;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `cookie "${args.name}" set for ${scope}\nsuggestion: reload the page if the app reads it on load`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const deleteCookiesSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe('cookie name to delete (omit to match any name)'),
+  domain: z.string().optional().describe('only cookies for this domain'),
+  path: z.string().optional().describe('only cookies with this path'),
+  session: sessionArg,
+});
+
+export async function deleteCookies(args: z.infer<typeof deleteCookiesSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+    const context = page.context();
+
+    const before = (await context.cookies()).length;
+    await context.clearCookies({ name: args.name, domain: args.domain, path: args.path });
+    const removed = before - (await context.cookies()).length;
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `deleted ${removed} cookie(s)`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+const storageArea = z
+  .enum(['local', 'session'])
+  .optional()
+  .default('local')
+  .describe('localStorage or sessionStorage');
+
+export const getWebStorageSchema = z.object({
+  storage: storageArea,
+  key: z
+    .string()
+    .optional()
+    .describe('single key to read (omit to list all entries)'),
+  session: sessionArg,
+});
+
+export async function getWebStorage(args: z.infer<typeof getWebStorageSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+
+    const entries = await page.evaluate(
+      ({ area, key }) => {
+        const store = area === 'session' ? window.sessionStorage : window.localStorage;
+        if (key !== undefined) {
+          const value = store.getItem(key);
+          return value === null ? [] : [[key, value]];
+        }
+        return Object.keys(store).map((k) => [k, store.getItem(k) ?? '']);
+      },
+      { area: args.storage, key: args.key }
+    );
+
+    const name = `${args.storage}Storage`;
+    const origin = new URL(page.url()).origin;
+
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: args.key ? `${name} has no key "${args.key}" for ${origin}` : `${name} is empty for ${origin}`,
+          },
+        ],
+      };
+    }
+
+    const formatted = entries
+      .map(([k, v]) => {
+        const value = !args.key && v.length > 200 ? v.substring(0, 200) + '... [truncated]' : v;
+        return `${k}: ${value}`;
+      })
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `${name} for ${origin} (${entries.length}):\n${formatted}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}\nsuggestion: navigate to a page on the origin first`,
+        },
+      ],
+    };
+  }
+}
+
+export const setWebStorageSchema = z.object({
+  storage: storageArea,
+  key: z.string().describe('key to write'),
+  value: z
+    .string()
+    .nullable()
+    .describe('value to store (strings only, JSON.stringify objects); null removes the key'),
+  session: sessionArg,
+});
+
+export async function setWebStorage(args: z.infer<typeof setWebStorageSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+
+    await page.evaluate(
+      ({ area, key, value }) => {
+        const store = area === 'session' ? window.sessionStorage : window.localStorage;
+        if (value === null) {
+          store.removeItem(key);
+        } else {
+          store.setItem(key, value);
+        }
+      },
+      { area: args.storage, key: args.key, value: args.value }
+    );
+
+    const name = `${args.storage}Storage`;
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: args.value === null ? `removed "${args.key}" from ${name}` : `set ${name} "${args.key}"`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}\nsuggestion: navigate to a page on the origin first`,
+        },
+      ],
+    };
+  }
+}
+
+export const getIndexedDbSchema = z.object({
+  database: z
+    .string()
+    .optional()
+    .describe('database to inspect (omit to list databases)'),
+  store: z
+    .string()
+    .optional()
+    .describe('object store to sample records from'),
+  limit: z
+    .number()
+    .optional()
+    .default(10)
+    .describe('maximum number of records to return'),
+  session: sessionArg,
+});
+
+export async function getIndexedDb(args: z.infer<typeof getIndexedDbSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const page = await session.ensureBrowser();
+    const origin = new URL(page.url()).origin;
+
+    // Everything runs in the page and only ever opens read-only transactions
+    const result = await page.evaluate(
+      async ({ database, store, limit }) => {
+        // Helpers are object methods: named function expressions pick up
+        // bundler name helpers (e.g. __name under tsx) that don't exist here
+        const idb = {
+          open(name: string) {
+            return new Promise<IDBDatabase>((resolve, reject) => {
+              const request = indexedDB.open(name);
+              request.onsuccess = () => resolve(request.result);
+              request.onerror = () => reject(request.error);
+              // Opening a missing database would create it; abort instead
+              request.onupgradeneeded = () => {
+                request.transaction?.abort();
+                reject(new Error(`database "${name}" does not exist`));
+              };
+            });
+          },
+          preview(value: unknown) {
+            let text: string;
+            try {
+              text = JSON.stringify(value) ?? String(value);
+            } catch {
+              text = String(value);
+            }
+            return text.length > 500 ? text.substring(0, 500) + '... [truncated]' : text;
+          },
+        };
+
+        if (!database) {
+          const dbs = await indexedDB.databases();
+          const described = [];
+          for (const info of dbs) {
+            if (!info.name) continue;
+            const db = await idb.open(info.name);
+            described.push({
+              name: info.name,
+              version: db.version,
+              stores: Array.from(db.objectStoreNames),
+            });
+            db.close();
+          }
+          return { kind: 'databases' as const, databases: described };
+        }
+
+        const db = await idb.open(database);
+        try {
+          if (!store) {
+            const stores = [];
+            for (const name of Array.from(db.objectStoreNames)) {
+              const tx = db.transaction(name, 'readonly');
+              const os = tx.objectStore(name);
+              const count = await new Promise<number>((resolve, reject) => {
+                const req = os.count();
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+              });
+              stores.push({
+                name,
+                keyPath: idb.preview(os.keyPath),
+                autoIncrement: os.autoIncrement,
+                indexes: Array.from(os.indexNames),
+                count,
+              });
+            }
+            return { kind: 'stores' as const, version: db.version, stores };
+          }
+
+          if (!db.objectStoreNames.contains(store)) {
+            throw new Error(`object store "${store}" not found in "${database}"`);
+          }
+
+          const os = db.transaction(store, 'readonly').objectStore(store);
+          const records = await new Promise<{ key: string; value: string }[]>((resolve, reject) => {
+            const out: { key: string; value: string }[] = [];
+            const req = os.openCursor();
+            req.onsuccess = () => {
+              const cursor = req.result;
+              if (!cursor || out.length >= limit) {
+                resolve(out);
+                return;
+              }
+              out.push({ key: idb.preview(cursor.key), value: idb.preview(cursor.value) });
+              cursor.continue();
+            };
+            req.onerror = () => reject(req.error);
+          });
+          const total = await new Promise<number>((resolve, reject) => {
+            const req = os.count();
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => reject(req.error);
+          });
+          return { kind: 'records' as const, records, total };
+        } finally {
+          db.close();
+        }
+      },
+      { database: args.database, store: args.store, limit: args.limit }
+    );
+
+    let text: string;
+    if (result.kind === 'databases') {
+      text = result.databases.length === 0
+        ? `no indexeddb databases for ${origin}`
+        : `indexeddb databases for ${origin}:\n${result.databases
+            .map((db) => `- ${db.name} (v${db.version}): ${db.stores.join(', ') || 'no object stores'}`)
+            .join('\n')}`;
+    } else if (result.kind === 'stores') {
+      text = `object stores in "${args.database}" (v${result.version}):\n${result.stores
+        .map((os) => `- ${os.name}: ${os.count} record(s), keyPath ${os.keyPath}${os.autoIncrement ? ', autoIncrement' : ''}${os.indexes.length > 0 ? `, indexes: ${os.indexes.join(', ')}` : ''}`)
+        .join('\n')}`;
+    } else {
+      text = `${args.database}/${args.store}: showing ${result.records.length} of ${result.total} record(s)\n\n${result.records
+        .map((r) => `key: ${r.key}\n  ${r.value}`)
+        .join('\n\n')}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
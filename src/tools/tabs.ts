@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import { sessionManager } from '../session/manager.js';
+import { sessionArg } from './session.js';
+
+export const listTabsSchema = z.object({
+  session: sessionArg,
+});
+
+export async function listTabs(args: z.infer<typeof listTabsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    await session.ensureBrowser();
+    const tabs = await session.listTabs();
+
+    const formatted = tabs
+      .map((tab) => {
+        const marker = tab.active ? '*' : ' ';
+        const opener = tab.openerId ? ` (opened by ${tab.openerId})` : '';
+        return `${marker} ${tab.id}: "${tab.title}" ${tab.url}${opener}`;
+      })
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `open tabs (${tabs.length}):\n${formatted}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const newTabSchema = z.object({
+  url: z
+    .string()
+    .optional()
+    .describe('url to open in the new tab'),
+  session: sessionArg,
+});
+
+export async function newTab(args: z.infer<typeof newTabSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  try {
+    const { id, page } = await session.newTab();
+
+    if (args.url) {
+      const config = await sessionManager.getConfig();
+      let url = args.url;
+      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        url = config.baseUrl + (url.startsWith('/') ? url : '/' + url);
+      }
+      await page.goto(url);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `opened ${id} and made it active\nurl: ${page.url()}`,
+        },
+      ],
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: ${message}`,
+        },
+      ],
+    };
+  }
+}
+
+export const switchTabSchema = z.object({
+  id: z.string().describe('tab id from list_tabs'),
+  session: sessionArg,
+});
+
+export async function switchTab(args: z.infer<typeof switchTabSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const page = session.switchTab(args.id);
+
+  if (!page) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: tab "${args.id}" not found\nsuggestion: use list_tabs to see open tabs`,
+        },
+      ],
+    };
+  }
+
+  await page.bringToFront().catch(() => {});
+  const title = await page.title().catch(() => '');
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `switched to ${args.id}\nurl: ${page.url()}\ntitle: "${title}"`,
+      },
+    ],
+  };
+}
+
+export const closeTabSchema = z.object({
+  id: z
+    .string()
+    .optional()
+    .describe('tab id to close (defaults to the active tab)'),
+  session: sessionArg,
+});
+
+export async function closeTab(args: z.infer<typeof closeTabSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const id = args.id ?? session.getActiveTabId();
+
+  if (!id || !(await session.closeTab(id))) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: tab "${args.id ?? 'active'}" not found\nsuggestion: use list_tabs to see open tabs`,
+        },
+      ],
+    };
+  }
+
+  const active = session.getActiveTabId();
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `closed ${id}\nactive tab: ${active ?? 'none (a new tab opens on the next action)'}`,
+      },
+    ],
+  };
+}
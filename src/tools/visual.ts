@@ -1,7 +1,21 @@
 import { z } from 'zod';
 import pixelmatch from 'pixelmatch';
 import sharp from 'sharp';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, isAbsolute, relative, resolve } from 'path';
 import { sessionManager } from '../session/manager.js';
+import { evictionNote, sessionArg } from './session.js';
+import { mediaFeaturesSchema, formatMedia } from './emulation.js';
+
+/**
+ * Baselines are stored as <name>.png under the baseline dir. Returns null
+ * for names that would resolve outside it, such as "../../.bashrc".
+ */
+function baselinePath(baselineDir: string, name: string): string | null {
+  const path = resolve(baselineDir, `${name}.png`);
+  const inside = relative(baselineDir, path);
+  return inside.startsWith('..') || isAbsolute(inside) ? null : path;
+}
 
 export const screenshotSchema = z.object({
   name: z.string().describe('name to identify this screenshot'),
@@ -14,22 +28,51 @@ export const screenshotSchema = z.object({
     .string()
     .optional()
     .describe('capture specific element only'),
+  media: mediaFeaturesSchema
+    .optional()
+    .describe('media overrides for this capture only, e.g. { colorScheme: "dark" }'),
+  saveBaseline: z
+    .boolean()
+    .optional()
+    .describe('also write the image to the configured baseline dir for later runs'),
+  session: sessionArg,
 });
 
 export async function screenshot(args: z.infer<typeof screenshotSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const config = await sessionManager.getConfig();
+  const baseline = args.saveBaseline ? baselinePath(config.baselineDir, args.name) : undefined;
+  if (baseline === null) {
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `error: screenshot name "${args.name}" would save the baseline outside ${config.baselineDir}\nsuggestion: use a plain name such as "checkout-mobile"`,
+        },
+      ],
+    };
+  }
+
   try {
-    const page = await sessionManager.ensureBrowser();
-    const config = sessionManager.getConfig();
+    const page = await session.ensureBrowser();
 
-    let buffer: Buffer;
+    const capture = () =>
+      args.selector
+        ? page.locator(args.selector).screenshot()
+        : page.screenshot({ fullPage: args.fullPage });
 
-    if (args.selector) {
-      buffer = await page.locator(args.selector).screenshot();
-    } else {
-      buffer = await page.screenshot({ fullPage: args.fullPage });
-    }
+    const buffer = args.media
+      ? await session.withMedia(page, args.media, capture)
+      : await capture();
 
-    sessionManager.storeScreenshot(args.name, buffer);
+    const evicted = session.storeScreenshot(args.name, buffer);
+
+    let saved = '';
+    if (baseline) {
+      await mkdir(dirname(baseline), { recursive: true });
+      await writeFile(baseline, buffer);
+      saved = `\nbaseline saved to ${baseline}`;
+    }
 
     const metadata = await sharp(buffer).metadata();
     const dimensions = `${metadata.width}x${metadata.height}`;
@@ -43,7 +86,7 @@ export async function screenshot(args: z.infer<typeof screenshotSchema>) {
         },
         {
           type: 'text' as const,
-          text: `screenshot "${args.name}" captured (${dimensions})`,
+          text: `screenshot "${args.name}" captured (${dimensions})${args.media ? ` with ${formatMedia(args.media)}` : ''}${saved}${evicted.length > 0 ? `\nevicted least recently used: ${evicted.join(', ')}` : ''}`,
         },
       ],
     };
@@ -60,6 +103,19 @@ export async function screenshot(args: z.infer<typeof screenshotSchema>) {
   }
 }
 
+async function loadBaseline(name: string): Promise<Buffer | undefined> {
+  const config = await sessionManager.getConfig();
+  const path = baselinePath(config.baselineDir, name);
+  if (!path) {
+    return undefined;
+  }
+  try {
+    return await readFile(path);
+  } catch {
+    return undefined;
+  }
+}
+
 export const visualDiffSchema = z.object({
   baseline: z.string().describe('name of baseline screenshot'),
   current: z.string().describe('name of current screenshot'),
@@ -68,19 +124,23 @@ export const visualDiffSchema = z.object({
     .optional()
     .default(0.1)
     .describe('pixel difference threshold (0-1)'),
+  session: sessionArg,
 });
 
 export async function visualDiff(args: z.infer<typeof visualDiffSchema>) {
+  const session = await sessionManager.getSession(args.session);
   try {
-    const baseline = sessionManager.getScreenshot(args.baseline);
-    const current = sessionManager.getScreenshot(args.current);
+    const baseline = session.getScreenshot(args.baseline) ?? (await loadBaseline(args.baseline));
+    const current = session.getScreenshot(args.current);
 
     if (!baseline) {
       return {
         content: [
           {
             type: 'text' as const,
-            text: `error: baseline screenshot "${args.baseline}" not found\nsuggestion: take a screenshot with name "${args.baseline}" first`,
+            text: session.wasEvicted('screenshot', args.baseline)
+              ? `error: baseline screenshot "${args.baseline}" was evicted to stay within the screenshot limit\nsuggestion: retake it, or pass saveBaseline to screenshot to keep baselines on disk`
+              : `error: baseline screenshot "${args.baseline}" not found in memory or the baseline dir\nsuggestion: take a screenshot with name "${args.baseline}" first`,
           },
         ],
       };
@@ -91,7 +151,9 @@ export async function visualDiff(args: z.infer<typeof visualDiffSchema>) {
         content: [
           {
             type: 'text' as const,
-            text: `error: current screenshot "${args.current}" not found\nsuggestion: take a screenshot with name "${args.current}" first`,
+            text: session.wasEvicted('screenshot', args.current)
+              ? `error: current screenshot "${args.current}" was evicted to stay within the screenshot limit\nsuggestion: retake it`
+              : `error: current screenshot "${args.current}" not found\nsuggestion: take a screenshot with name "${args.current}" first`,
           },
         ],
       };
@@ -160,17 +222,20 @@ export async function visualDiff(args: z.infer<typeof visualDiffSchema>) {
   }
 }
 
-export const listScreenshotsSchema = z.object({});
+export const listScreenshotsSchema = z.object({
+  session: sessionArg,
+});
 
-export async function listScreenshots() {
-  const names = sessionManager.listScreenshots();
+export async function listScreenshots(args: z.infer<typeof listScreenshotsSchema>) {
+  const session = await sessionManager.getSession(args.session);
+  const names = session.listScreenshots();
 
   if (names.length === 0) {
     return {
       content: [
         {
           type: 'text' as const,
-          text: 'no screenshots stored',
+          text: `no screenshots stored${evictionNote(session.getStats().screenshots, 'screenshots were')}`,
         },
       ],
     };
@@ -180,7 +245,7 @@ export async function listScreenshots() {
     content: [
       {
         type: 'text' as const,
-        text: `stored screenshots:\n${names.map((n) => `- ${n}`).join('\n')}`,
+        text: `stored screenshots:\n${names.map((n) => `- ${n}`).join('\n')}${evictionNote(session.getStats().screenshots, 'screenshots were')}`,
       },
     ],
   };
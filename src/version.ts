@@ -0,0 +1,7 @@
+import { readFileSync } from 'fs';
+
+// package.json sits one level above both src/ and build/
+const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8')) as { name: string; version: string };
+
+/** Name and version reported to MCP clients and recorded in exported HAR files. */
+export const SERVER_INFO = { name: pkg.name, version: pkg.version };
@@ -0,0 +1,2 @@
+"use strict";(()=>{function n(e){return e.reduce((r,t)=>r+t.price,0)}function i(e){if(!e)throw new Error("cart is empty");console.log(`order total: ${n(e)}`)}document.getElementById("submit-order")?.addEventListener("click",()=>{i(void 0)});})();
+//# sourceMappingURL=checkout.js.map
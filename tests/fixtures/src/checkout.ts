@@ -0,0 +1,19 @@
+interface CartItem {
+  name: string;
+  price: number;
+}
+
+function cartTotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.price, 0);
+}
+
+export function submitOrder(items: CartItem[] | undefined): void {
+  if (!items) {
+    throw new Error('cart is empty');
+  }
+  console.log(`order total: ${cartTotal(items)}`);
+}
+
+document.getElementById('submit-order')?.addEventListener('click', () => {
+  submitOrder(undefined);
+});
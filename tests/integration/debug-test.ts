@@ -64,7 +64,7 @@ async function debug() {
 
     // Test get_page_state
     console.log('=== PAGE STATE ===');
-    const stateResult = await qa.getPageState();
+    const stateResult = await qa.getPageState({});
     console.log('Content:', JSON.stringify(stateResult.content, null, 2));
 
   } finally {
@@ -4,17 +4,26 @@
  */
 
 import { createServer } from 'http';
-import { readFileSync } from 'fs';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
 import { join, dirname } from 'path';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
 
 // Set env vars before importing tools
 process.env.HEADLESS = 'true';
 process.env.BASE_URL = 'http://localhost:3456';
 process.env.TIMEOUT = '10000';
+process.env.ARTIFACTS_DIR = join(tmpdir(), 'claude-eyes-artifacts');
+process.env.DEV_SERVER_COMMAND = 'node -e "setTimeout(() => {}, 60000)"';
 
 // Import tools after setting env
+import { chromium } from 'playwright';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import { sessionManager } from '../../src/session/manager.js';
+import { BrowserSession } from '../../src/session/session.js';
 import * as navigation from '../../src/tools/navigation.js';
 import * as interaction from '../../src/tools/interaction.js';
 import * as visual from '../../src/tools/visual.js';
@@ -22,9 +31,23 @@ import * as consoleTool from '../../src/tools/console.js';
 import * as network from '../../src/tools/network.js';
 import * as dom from '../../src/tools/dom.js';
 import * as qa from '../../src/tools/qa.js';
+import * as tabs from '../../src/tools/tabs.js';
+import * as sessionTool from '../../src/tools/session.js';
+import * as emulation from '../../src/tools/emulation.js';
+import * as storage from '../../src/tools/storage.js';
+import * as configTool from '../../src/tools/config.js';
+import * as devServer from '../../src/tools/server.js';
+import { RingBuffer } from '../../src/session/buffers.js';
+import { parseGraphQLRequest } from '../../src/session/graphql.js';
+import { registerResources } from '../../src/resources/index.js';
+import { SourceMapResolver } from '../../src/session/sourcemaps.js';
+import { loadConfig } from '../../src/session/config.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+// 1x1 transparent png for the response body tests
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
 // Simple test framework
 let passed = 0;
 let failed = 0;
@@ -50,6 +73,42 @@ function assert(condition: boolean, message: string) {
 function startServer(): Promise<ReturnType<typeof createServer>> {
   return new Promise((resolve) => {
     const server = createServer((req, res) => {
+      // Prebuilt bundle and source map for the source-map tests
+      if (req.url?.startsWith('/assets/')) {
+        const name = req.url.slice('/assets/'.length).replace(/[^\w.-]/g, '');
+        res.writeHead(200, { 'Content-Type': name.endsWith('.map') ? 'application/json' : 'text/javascript' });
+        res.end(readFileSync(join(__dirname, '../fixtures/assets', name), 'utf-8'));
+        return;
+      }
+      if (req.url === '/graphql' && req.method === 'POST') {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          const { operationName } = JSON.parse(body);
+          const result = operationName === 'BrokenQuery'
+            ? { data: null, errors: [{ message: 'Cannot query field "nope" on type "Query"' }] }
+            : { data: { user: { name: 'Ada' } } };
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(result));
+        });
+        return;
+      }
+      if (req.url === '/api/items') {
+        const items = Array.from({ length: 500 }, (_, i) => ({ id: i, name: `item ${i}` }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ items }));
+        return;
+      }
+      if (req.url === '/pixel.png') {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.from(PIXEL_PNG, 'base64'));
+        return;
+      }
+      if (req.url === '/old-page') {
+        res.writeHead(302, { Location: '/' });
+        res.end();
+        return;
+      }
       const filePath = join(__dirname, '../fixtures/index.html');
       const content = readFileSync(filePath, 'utf-8');
       res.writeHead(200, { 'Content-Type': 'text/html' });
@@ -78,13 +137,33 @@ async function runTests() {
     });
 
     await test('get_page_state: should return page info', async () => {
-      const result = await qa.getPageState();
+      const result = await qa.getPageState({});
       const text = result.content[0].text || '';
       assert(text.includes('url:'), 'should include url');
       assert(text.includes('title:'), 'should include title');
       assert(text.includes('viewport:'), 'should include viewport');
     });
 
+    await test('get_config: should report values and their sources', async () => {
+      const result = await configTool.getConfig();
+      const text = result.content[0].text || '';
+      assert(text.includes('baseUrl: "http://localhost:3456" (env)'), 'should attribute BASE_URL to env');
+      assert(text.includes('browser: "chromium" (default)'), 'should fall back to defaults');
+    });
+
+    await test('config: should read booleans in any case and as yes/no or on/off', async () => {
+      const headless = process.env.HEADLESS;
+      try {
+        for (const [value, expected] of [['TRUE', true], ['yes', true], ['On', true], ['False', false], ['NO', false], ['off', false]] as const) {
+          process.env.HEADLESS = value;
+          const { config } = await loadConfig(tmpdir());
+          assert(config.headless === expected, `should read HEADLESS=${value} as ${expected}`);
+        }
+      } finally {
+        process.env.HEADLESS = headless;
+      }
+    });
+
     // Screenshot tests - THIS IS CRITICAL
     await test('screenshot: should return actual image data', async () => {
       const result = await visual.screenshot({ name: 'test1', fullPage: false });
@@ -149,6 +228,108 @@ async function runTests() {
       assert(text.includes('error message') || text.includes('error'), 'should capture errors');
     });
 
+    await test('get_console_errors: should capture uncaught exceptions and rejections', async () => {
+      await consoleTool.clearConsole({});
+      await interaction.click({ selector: '#throw-error', button: 'left', clickCount: 1, timeout: 5000 });
+      await interaction.click({ selector: '#reject-promise', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 100));
+
+      const uncaught = (await consoleTool.getConsoleErrors({ limit: 20, source: 'pageerror' })).content[0].text || '';
+      assert(uncaught.includes('[UNCAUGHT] Uncaught TypeError: this is an uncaught exception'), 'should record the exception');
+      assert(uncaught.includes('Unhandled rejection: Error: this is an unhandled rejection'), 'should record the rejection');
+      assert(uncaught.includes('at HTMLButtonElement'), 'should include the stack');
+      assert((uncaught.match(/unhandled rejection/g) || []).length === 1, 'should record the rejection once');
+
+      const verified = (await qa.verifyNoErrors({})).content[0].text || '';
+      assert(verified.includes('FAIL: 2 distinct error(s) detected (2 uncaught'), 'verify_no_errors should include them by default');
+
+      const consoleOnly = (await qa.verifyNoErrors({ source: 'console' })).content[0].text || '';
+      assert(consoleOnly.includes('PASS'), 'should be able to check console errors alone');
+      await consoleTool.clearConsole({});
+    });
+
+    await test('get_console_errors: should resolve bundled frames through source maps', async () => {
+      await consoleTool.clearConsole({});
+      await interaction.click({ selector: '#submit-order', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 100));
+
+      const text = (await consoleTool.getConsoleErrors({ limit: 20, source: 'pageerror' })).content[0].text || '';
+      assert(text.includes('assets/checkout.js:1:'), 'should keep the bundled frame');
+      assert(text.includes('-> src/checkout.ts:12:5'), 'should map to the original file and line');
+      assert(text.includes("> 12 |     throw new Error('cart is empty');"), 'should show the surrounding source');
+
+      const raw = (await consoleTool.getConsoleErrors({ limit: 20, source: 'pageerror', sourceMaps: false })).content[0].text || '';
+      assert(!raw.includes('src/checkout.ts'), 'should skip resolution when disabled');
+      await consoleTool.clearConsole({});
+    });
+
+    await test('source maps: should only read original sources inside the project', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'claude-eyes-maps-'));
+      writeFileSync(join(dir, 'inside.ts'), 'export const inside = true;\n');
+      const map = (source: string) => JSON.stringify({ version: 3, sources: [source], names: [], mappings: 'AAAA' });
+      writeFileSync(join(dir, 'inside.js.map'), map('inside.ts'));
+      writeFileSync(join(dir, 'escape.js.map'), map('../../../../../../etc/hostname'));
+      writeFileSync(join(dir, 'absolute.js.map'), map('file:///etc/hostname'));
+
+      const resolver = new SourceMapResolver({ sourceMapDir: dir, rootDir: dir });
+      const inside = await resolver.resolve('http://127.0.0.1:1/inside.js', 1, 0);
+      assert(inside?.snippet?.[0].includes('export const inside') ?? false, 'should read sources in the project');
+      for (const name of ['escape', 'absolute']) {
+        const outside = await resolver.resolve(`http://127.0.0.1:1/${name}.js`, 1, 0);
+        assert(outside !== null && outside.snippet === undefined, `should not read ${name} sources`);
+      }
+    });
+
+    await test('get_console_logs: should serialize object and error arguments', async () => {
+      await interaction.click({ selector: '#log-object', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 100));
+
+      const listed = (await consoleTool.getConsoleLogs({ search: 'alice', limit: 1 })).content[0].text || '';
+      assert(listed.includes('user {"name":"alice","roles":["admin"],"lastLogin":"1970-01-01T00:00:00.000Z"}'), 'should preview objects as json');
+      assert(!listed.includes('JSHandle@'), 'should not fall back to handle names');
+
+      const id = /#(\w+): user/.exec(listed)?.[1] ?? '';
+      const full = (await consoleTool.getConsoleLogs({ entryId: id, limit: 1 })).content[0].text || '';
+      assert(full.includes('arg 3 (error):'), 'should expand the error argument');
+      assert(full.includes('"message": "quota exceeded"'), 'should include the error message');
+    });
+
+    await test('get_console_logs: should apply format string substitutions', async () => {
+      await consoleTool.clearConsole({});
+      const page = await (await sessionManager.getSession()).ensureBrowser();
+      await page.evaluate(() => {
+        console.log('%s items (%d)', 'cart', 5, { coupon: null });
+        console.log('%s items (%d)', 'cart', 7, { coupon: null });
+      });
+      await new Promise((r) => setTimeout(r, 100));
+
+      const listed = (await consoleTool.getConsoleLogs({ search: 'items', limit: 5 })).content[0].text || '';
+      assert(listed.includes('cart items (5) {"coupon":null}'), 'should substitute and append leftover arguments');
+      assert(!listed.includes('%s'), 'should not show the raw format string');
+
+      const grouped = (await consoleTool.getConsoleLogs({ search: 'items', group: true, limit: 5 })).content[0].text || '';
+      assert(grouped.includes('x2'), 'should group on the substituted text');
+      await consoleTool.clearConsole({});
+    });
+
+    await test('get_console_logs: should group repeated messages', async () => {
+      await consoleTool.clearConsole({});
+      await interaction.click({ selector: '#log-burst', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 100));
+
+      const grouped = (await consoleTool.getConsoleLogs({ group: true, limit: 10 })).content[0].text || '';
+      assert(grouped.includes('2 groups from 51 entries'), 'should collapse the burst into one group');
+      assert(grouped.includes('[WARNING] x50'), 'should count the repeats');
+      assert(grouped.includes('slow render: row 49 took 59ms'), 'should show the latest sample');
+
+      await interaction.click({ selector: '#log-burst', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 100));
+      const verified = (await qa.verifyNoErrors({ source: 'console' })).content[0].text || '';
+      assert(verified.includes('FAIL: 1 distinct error(s) detected (1 console; 2 occurrence(s))'), 'should report error signatures');
+      assert(verified.includes('failed to load widget 7 (x2)'), 'should count occurrences per signature');
+      await consoleTool.clearConsole({});
+    });
+
     // QA verification tests
     await test('verify_element: should verify element exists', async () => {
       const result = await qa.verifyElement({ selector: '#login-btn', state: 'visible' });
@@ -206,7 +387,7 @@ async function runTests() {
     // Network test
     await test('network: capture fetch request', async () => {
       // Clear previous requests
-      await network.clearNetwork();
+      await network.clearNetwork({});
 
       // Click fetch button
       await interaction.click({ selector: '#fetch-success', button: 'left', clickCount: 1, timeout: 5000 });
@@ -219,13 +400,518 @@ async function runTests() {
       assert(text.includes('jsonplaceholder') || text.includes('network requests'), 'should capture API request');
     });
 
+    // Tab tests
+    await test('tabs: should track popups and switch between them', async () => {
+      await interaction.click({ selector: '#open-popup', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((r) => setTimeout(r, 500));
+
+      const listed = (await tabs.listTabs({})).content[0].text || '';
+      assert(listed.includes('tab-2'), 'should list the popup as a second tab');
+      assert(listed.includes('opened by tab-1'), 'should record the opener');
+
+      const switched = (await tabs.switchTab({ id: 'tab-2' })).content[0].text || '';
+      assert(switched.includes('switched to tab-2'), 'should switch to the popup');
+
+      const closed = (await tabs.closeTab({ id: 'tab-2' })).content[0].text || '';
+      assert(closed.includes('active tab: tab-1'), 'should fall back to the opener tab');
+    });
+
+    // Named session tests
+    await test('sessions: should isolate captures between sessions', async () => {
+      const created = await sessionTool.createSession({ name: 'alice', url: '/' });
+      assert(created.content[0].text?.includes('session "alice" created') ?? false, 'should create session');
+
+      await interaction.click({ selector: '#log-error', button: 'left', clickCount: 1, timeout: 5000, session: 'alice' });
+      await consoleTool.clearConsole({});
+      await new Promise((r) => setTimeout(r, 100));
+
+      const aliceErrors = (await consoleTool.getConsoleErrors({ limit: 20, session: 'alice' })).content[0].text || '';
+      assert(aliceErrors.includes('error message'), 'alice should keep her own errors');
+
+      const listed = (await sessionTool.listSessions()).content[0].text || '';
+      assert(listed.includes('alice') && listed.includes('default'), 'should list both sessions');
+
+      const destroyed = (await sessionTool.destroySession({ name: 'alice' })).content[0].text || '';
+      assert(destroyed.includes('destroyed'), 'should destroy session');
+    });
+
+    await test('sessions: should not create named sessions on first use', async () => {
+      await sessionTool.createSession({ name: 'alice' });
+      const typo = await consoleTool.getConsoleLogs({ limit: 10, session: 'alcie' }).then(() => '', (err: Error) => err.message);
+      assert(typo.includes('no session "alcie"') && typo.includes('"alice"'), 'should name the existing sessions');
+      assert(!sessionManager.hasSession('alcie'), 'should not create the mistyped session');
+      await sessionTool.destroySession({ name: 'alice' });
+    });
+
+    // Device emulation tests
+    await test('set_device: should switch to a mobile preset and back', async () => {
+      const mobile = (await emulation.setDevice({ device: 'iPhone 13' })).content[0].text || '';
+      assert(mobile.includes('device: iPhone 13'), 'should apply the preset');
+      assert(mobile.includes('localhost:3456'), 'should keep the current url');
+
+      const state = (await qa.getPageState({})).content[0].text || '';
+      assert(state.includes('390x'), 'page state should report the mobile viewport');
+
+      const desktop = (await emulation.setDevice({ device: 'Desktop Chrome' })).content[0].text || '';
+      assert(desktop.includes('mobile: false'), 'should restore a desktop context');
+
+      await emulation.setDevice({ width: 1280, height: 720 });
+    });
+
+    await test('set_device: should reject mobile emulation on firefox', async () => {
+      await sessionManager.createSession('firefox', { browser: 'firefox' });
+      const text = (await emulation.setDevice({ device: 'iPhone 13', session: 'firefox' })).content[0].text || '';
+      assert(text.startsWith('error:') && text.includes('isMobile (set by device "iPhone 13") is not supported on firefox'), 'should explain the unsupported option');
+      assert(text.includes('suggestion:'), 'should suggest another engine');
+      await sessionManager.destroySession('firefox');
+    });
+
+    await test('set_emulation: should apply locale and timezone', async () => {
+      const result = (await emulation.setEmulation({ locale: 'de-DE', timezoneId: 'Europe/Berlin' })).content[0].text || '';
+      assert(result.includes('locale: de-DE'), 'should report the locale');
+
+      const page = (await sessionManager.getSession()).getPage()!;
+      const language = await page.evaluate(() => navigator.language);
+      assert(language === 'de-DE', 'navigator.language should follow the locale');
+
+      const state = (await qa.getPageState({})).content[0].text || '';
+      assert(state.includes('timezone: Europe/Berlin'), 'page state should report the timezone');
+
+      await emulation.setEmulation({ reset: true });
+    });
+
+    await test('set_emulation: should keep the previous context when an option is rejected', async () => {
+      await navigation.navigate({ url: '/', waitUntil: 'load' });
+      await emulation.setEmulation({ locale: 'fr-FR' });
+      const page = (await sessionManager.getSession()).getPage()!;
+
+      const result = (await emulation.setEmulation({ timezoneId: 'Not/AZone' })).content[0].text || '';
+      assert(result.startsWith('error:') && result.includes('previous settings are still active'), 'should report the rejected option');
+
+      const session = await sessionManager.getSession();
+      assert(session.getPage() === page && !page.isClosed(), 'should keep the original tab open');
+      assert(session.getEmulation().timezoneId === undefined, 'should not keep the rejected timezone');
+      assert(session.getEmulation().locale === 'fr-FR', 'should keep the earlier settings');
+      await emulation.setEmulation({ reset: true });
+    });
+
+    await test('screenshot: should not save baselines outside the baseline dir', async () => {
+      const text = (await visual.screenshot({ name: '../../escaped', fullPage: false, saveBaseline: true })).content[0].text || '';
+      assert(text.startsWith('error:') && text.includes('outside'), 'should reject the name');
+    });
+
+    await test('screenshot: media override should allow light vs dark comparison', async () => {
+      await visual.screenshot({ name: 'light', fullPage: false, media: { colorScheme: 'light' } });
+      const dark = (await visual.screenshot({ name: 'dark', fullPage: false, media: { colorScheme: 'dark' } }))
+        .content.find((c) => c.type === 'text')?.text || '';
+      assert(dark.includes('with colorScheme: dark'), 'should mention the override');
+
+      const diff = await visual.visualDiff({ baseline: 'light', current: 'dark', threshold: 0.1 });
+      assert(diff.content.some((c) => c.type === 'image'), 'should diff the two captures');
+
+      const media = (await emulation.emulateMedia({ reducedMotion: 'reduce' })).content[0].text || '';
+      assert(media.includes('reducedMotion: reduce'), 'should persist session media settings');
+      await emulation.emulateMedia({ reset: true });
+    });
+
+    // Storage state tests
+    await test('storage state: should round-trip localStorage through a file', async () => {
+      const page = await (await sessionManager.getSession()).ensureBrowser();
+      await page.evaluate(() => localStorage.setItem('auth-token', 'abc123'));
+
+      const path = `claude-eyes-state-${Date.now()}.json`;
+      const saved = (await storage.saveStorageState({ path })).content[0].text || '';
+      assert(saved.includes('origins with localStorage: 1'), 'should save the origin');
+      assert(saved.includes(process.env.ARTIFACTS_DIR!), 'should write under the artifacts directory');
+
+      const escaped = (await storage.saveStorageState({ path: '../state.json' })).content[0].text || '';
+      assert(escaped.includes('outside the artifacts directory'), 'should refuse paths outside the artifacts directory');
+
+      await page.evaluate(() => localStorage.clear());
+      const loaded = (await storage.loadStorageState({ path })).content[0].text || '';
+      assert(loaded.includes('storage state loaded'), 'should load the state');
+
+      const restored = await (await sessionManager.getSession()).getPage()!.evaluate(() => localStorage.getItem('auth-token'));
+      assert(restored === 'abc123', 'should restore localStorage');
+    });
+
+    // Crash recovery tests
+    await test('recovery: should reopen the last url after the tab dies', async () => {
+      const session = await sessionManager.getSession();
+      await session.getPage()!.close();
+
+      const state = (await qa.getPageState({})).content[0].text || '';
+      assert(state.includes('localhost:3456'), 'should restore the last url');
+
+      const events = (await sessionTool.getSessionEvents({})).content[0].text || '';
+      assert(events.includes('[PAGE-CLOSED]'), 'should log the unexpected close');
+      assert(events.includes('[RECOVERED]'), 'should log the recovery');
+      assert(sessionManager.takeRecoveryNotices().length === 1, 'should queue a notice for the next response');
+    });
+
+    await test('set_network_conditions: should tag requests with the active profile', async () => {
+      const set = (await network.setNetworkConditions({ preset: 'Fast 3G' })).content[0].text || '';
+      assert(set.includes('Fast 3G'), 'should apply the preset');
+
+      await network.clearNetwork({});
+      await navigation.reload({ waitUntil: 'load' });
+
+      const requests = (await network.getNetworkRequests({ limit: 20 })).content[0].text || '';
+      assert(requests.includes('network: Fast 3G'), 'should record the profile on captured requests');
+
+      const state = (await qa.getPageState({})).content[0].text || '';
+      assert(state.includes('network: Fast 3G'), 'page state should report the profile');
+
+      await network.setNetworkConditions({ preset: 'none' });
+    });
+
+    // Cookie and web storage tests
+    await test('cookies: should set, read and delete a cookie', async () => {
+      const set = (await storage.setCookie({ name: 'theme', value: 'dark' })).content[0].text || '';
+      assert(set.includes('cookie "theme" set'), 'should set the cookie');
+
+      const cookie = (await storage.getCookie({ name: 'theme' })).content[0].text || '';
+      assert(cookie.includes('theme=dark'), 'should read the cookie back');
+
+      const deleted = (await storage.deleteCookies({ name: 'theme' })).content[0].text || '';
+      assert(deleted.includes('deleted 1 cookie'), 'should delete the cookie');
+    });
+
+    await test('web storage: should write and read sessionStorage', async () => {
+      await storage.setWebStorage({ storage: 'session', key: 'step', value: '2' });
+      const entries = (await storage.getWebStorage({ storage: 'session' })).content[0].text || '';
+      assert(entries.includes('step: 2'), 'should list the entry');
+
+      await storage.setWebStorage({ storage: 'session', key: 'step', value: null });
+      const empty = (await storage.getWebStorage({ storage: 'session', key: 'step' })).content[0].text || '';
+      assert(empty.includes('has no key'), 'should remove the entry');
+    });
+
+    await test('get_indexeddb: should list databases and sample records', async () => {
+      const page = await (await sessionManager.getSession()).ensureBrowser();
+      await page.evaluate(() => new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open('app-db', 1);
+        request.onupgradeneeded = () => request.result.createObjectStore('todos', { keyPath: 'id' });
+        request.onsuccess = () => {
+          const tx = request.result.transaction('todos', 'readwrite');
+          tx.objectStore('todos').put({ id: 1, title: 'write tests' });
+          tx.oncomplete = () => { request.result.close(); resolve(); };
+        };
+        request.onerror = () => reject(request.error);
+      }));
+
+      const dbs = (await storage.getIndexedDb({ limit: 10 })).content[0].text || '';
+      assert(dbs.includes('app-db (v1): todos'), 'should list the database and its stores');
+
+      const records = (await storage.getIndexedDb({ database: 'app-db', store: 'todos', limit: 10 })).content[0].text || '';
+      assert(records.includes('write tests'), 'should sample records');
+    });
+
+    // Dev server tests
+    await test('start_dev_server: should not start a second server on a busy port', async () => {
+      const logs = (await devServer.devServerLogs({ limit: 10 })).content[0].text || '';
+      assert(logs.includes('no dev server has been started'), 'should report no managed server');
+
+      const text = (await devServer.startDevServer({ timeout: 5000 })).content[0].text || '';
+      assert(text.includes('already listening on 127.0.0.1:3456'), 'should detect the running test server');
+      assert(sessionManager.getDevServer() === null, 'should not spawn the command');
+    });
+
+    await test('get_session_stats: should report buffer usage and limits', async () => {
+      const text = (await sessionTool.getSessionStats({})).content[0].text || '';
+      assert(/console: \d+\/5000 entries/.test(text), 'should report console usage against the default cap');
+      assert(text.includes('screenshots:') && text.includes('/50 entries'), 'should report screenshot usage');
+      assert(text.includes('process: rss'), 'should report server memory');
+    });
+
+    await test('RingBuffer: should ignore resizes of evicted entries', async () => {
+      const buffer = new RingBuffer<{ size: number }>(2, 1000, (item) => item.size);
+      const first = { size: 10 };
+      buffer.push(first);
+      buffer.push({ size: 20 });
+      buffer.push({ size: 30 });
+      assert(buffer.stats().bytes === 50, 'should drop the evicted entry from the byte count');
+
+      first.size = 500;
+      buffer.resize(first);
+      const stats = buffer.stats();
+      assert(stats.bytes === 50 && stats.entries === 2, 'should not count the evicted entry again');
+    });
+
+    await test('onCapture: should notify listeners of uncaught exceptions', async () => {
+      await navigation.navigate({ url: '/', waitUntil: 'load' });
+      const events: string[] = [];
+      sessionManager.onCapture((event) => {
+        if (event.kind === 'console') events.push(event.entry.type);
+      });
+
+      await interaction.click({ selector: '#throw-error', button: 'left', clickCount: 1, timeout: 5000 });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      assert(events.includes('pageerror'), 'should emit a capture event for the page error');
+    });
+
+    await test('mock_route: should answer matching requests and flag them', async () => {
+      const added = (await network.mockRoute({ url: '**/posts/1', method: 'GET', status: 500, body: '{"error":"boom"}' })).content[0].text || '';
+      assert(added.includes('mock added: mock-'), 'should return the mock id');
+
+      await network.clearNetwork({});
+      await interaction.click({ selector: '#fetch-success', button: 'left', clickCount: 1, timeout: 5000 });
+      await network.waitForNetworkIdle({ timeout: 5000 });
+
+      const requests = (await network.getNetworkRequests({ urlPattern: 'posts/1', limit: 5 })).content[0].text || '';
+      assert(requests.includes('status: 500') && requests.includes('mocked: mock-'), 'should record the mocked response');
+
+      const mocks = (await network.listMocks({})).content[0].text || '';
+      assert(mocks.includes('hits: 1'), 'should count the hit');
+
+      const removed = (await network.unmockRoute({})).content[0].text || '';
+      assert(removed.includes('removed 1 mock'), 'should remove the mock');
+    });
+
+    await test('export_har: should write filtered requests as HAR 1.2', async () => {
+      const text = (await network.exportHar({ urlPattern: 'posts/1', path: 'mocked.har' })).content[0].text || '';
+      assert(text.includes('1 mocked'), 'should report the mocked request');
+
+      const har = JSON.parse(readFileSync(join(tmpdir(), 'claude-eyes-artifacts', 'mocked.har'), 'utf-8'));
+      assert(har.log.version === '1.2', 'should write a HAR 1.2 log');
+      assert(har.log.entries[0].response.status === 500 && har.log.entries[0]._mocked, 'should keep the status and mock flag');
+
+      const escaped = (await network.exportHar({ path: '../outside.har' })).content[0].text || '';
+      assert(escaped.includes('outside the artifacts directory'), 'should refuse paths outside the artifacts directory');
+    });
+
+    await test('replay_har: should serve responses from an exported HAR', async () => {
+      const started = (await network.replayHar({ path: 'mocked.har', url: '**/posts/1', mode: 'strict' })).content[0].text || '';
+      assert(started.includes('replaying HAR') && started.includes('strict'), 'should confirm the replay');
+
+      await network.clearNetwork({});
+      await interaction.click({ selector: '#fetch-success', button: 'left', clickCount: 1, timeout: 5000 });
+      await network.waitForNetworkIdle({ timeout: 5000 });
+
+      const requests = (await network.getNetworkRequests({ urlPattern: 'posts/1', limit: 5 })).content[0].text || '';
+      assert(requests.includes('status: 500') && requests.includes('replayed from HAR'), 'should serve and flag the recorded response');
+
+      const stopped = (await network.stopHarReplay({})).content[0].text || '';
+      assert(stopped.includes('HAR replay stopped'), 'should stop the replay');
+    });
+
+    await test('replay_har: mocks should win over replayed responses, also in a recreated context', async () => {
+      await network.mockRoute({ url: '**/posts/1', method: 'GET', status: 418, body: '{}' });
+      await network.replayHar({ path: 'mocked.har', url: '**/posts/1', mode: 'strict' });
+
+      const fetchStatus = async () => {
+        await network.clearNetwork({});
+        await interaction.click({ selector: '#fetch-success', button: 'left', clickCount: 1, timeout: 5000 });
+        await network.waitForNetworkIdle({ timeout: 5000 });
+        return (await network.getNetworkRequests({ urlPattern: 'posts/1', limit: 5 })).content[0].text || '';
+      };
+      assert((await fetchStatus()).includes('status: 418'), 'should answer from the mock');
+
+      await emulation.setDevice({ deviceScaleFactor: 1 });
+      assert((await fetchStatus()).includes('status: 418'), 'should keep the mock ahead after recreating the context');
+
+      await network.stopHarReplay({});
+      await network.unmockRoute({});
+    });
+
+    await test('get_network_requests: should show network failures and redirects', async () => {
+      await network.mockRoute({ url: '**/posts/1', abort: 'connectionrefused' });
+      await network.clearNetwork({});
+      await interaction.click({ selector: '#fetch-success', button: 'left', clickCount: 1, timeout: 5000 });
+      await network.waitForNetworkIdle({ timeout: 5000 });
+      await network.unmockRoute({});
+
+      const failedRequests = (await network.getNetworkRequests({ failed: true, limit: 5 })).content[0].text || '';
+      assert(failedRequests.includes('FAILED (net::ERR_CONNECTION_REFUSED)'), 'should record the failure reason');
+
+      const failedCheck = (await qa.verifyRequestSucceeded({ urlPattern: 'posts/1', expectedStatus: 200 })).content[0].text || '';
+      assert(failedCheck.startsWith('FAIL') && failedCheck.includes('ERR_CONNECTION_REFUSED'), 'should fail with the reason');
+
+      await navigation.navigate({ url: '/old-page', waitUntil: 'load' });
+      const redirected = (await qa.verifyRequestSucceeded({ urlPattern: 'old-page', expectedStatus: 200 })).content[0].text || '';
+      assert(redirected.startsWith('PASS') && redirected.includes('redirects: 302 ->'), 'should follow the redirect chain');
+    });
+
+    await test('get_response_body: should page, select json and return images', async () => {
+      const page = await (await sessionManager.getSession()).ensureBrowser();
+      await page.evaluate(() => Promise.all([fetch('/api/items').then((r) => r.text()), fetch('/pixel.png').then((r) => r.blob())]));
+
+      const selected = (await network.getResponseBody({ urlPattern: 'api/items', index: -1, jsonPath: '$.items[1].name' })).content[0].text || '';
+      assert(selected.includes('"item 1"'), 'should select with jsonPath');
+
+      const filtered = (await network.getResponseBody({ urlPattern: 'api/items', index: -1, jsonPath: '$.items[?(@.id > 1)]' })).content[0].text || '';
+      assert(filtered.startsWith('error:'), 'should not evaluate filter expressions');
+
+      const paged = (await network.getResponseBody({ urlPattern: 'api/items', index: -1, offset: 0, length: 100 })).content[0].text || '';
+      assert(paged.includes('use offset 100 for more'), 'should page through the body');
+
+      const image = await network.getResponseBody({ urlPattern: 'pixel.png', index: -1 });
+      assert(image.content[0].type === 'image', 'should return images as image content');
+
+      const saved = (await network.getResponseBody({ urlPattern: 'pixel.png', index: -1, saveTo: 'pixel.png' })).content[0].text || '';
+      assert(saved.includes('saved to') && readFileSync(join(tmpdir(), 'claude-eyes-artifacts', 'pixel.png')).length > 0, 'should save the body');
+    });
+
+    await test('graphql: should label operations and treat errors arrays as failures', async () => {
+      const session = await sessionManager.getSession();
+      const page = await session.ensureBrowser();
+      const cachedBodies = session.getStats().responseBodies.entries;
+      await page.evaluate(() => Promise.all([
+        { operationName: 'GetUser', query: 'query GetUser($id: ID!) { user(id: $id) { name } }', variables: { id: '1' } },
+        { operationName: 'BrokenQuery', query: 'query BrokenQuery { nope }' },
+      ].map((payload) => fetch('/graphql', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      }).then((r) => r.json()))));
+      await new Promise((r) => setTimeout(r, 200));
+
+      const listed = (await network.getNetworkRequests({ operationName: 'GetUser', limit: 5 })).content[0].text || '';
+      assert(listed.includes('[query GetUser]') && listed.includes('variables: {"id":"1"}'), 'should show the operation and variables');
+      assert(!listed.includes('BrokenQuery'), 'should filter by operation name');
+
+      const broken = (await qa.verifyRequestSucceeded({ operationName: 'BrokenQuery', expectedStatus: 200 })).content[0].text || '';
+      assert(broken.startsWith('FAIL') && broken.includes('Cannot query field'), 'should fail on graphql errors despite status 200');
+      assert(session.getStats().responseBodies.entries === cachedBodies, 'should not cache bodies read for the error check');
+
+      const body = (await network.getResponseBody({ operationName: 'GetUser', index: -1, jsonPath: '$.data.user.name' })).content[0].text || '';
+      assert(body.includes('"Ada"'), 'should select the response by operation name');
+    });
+
+    await test('graphql: should judge errors arrays right after the response arrives', async () => {
+      const session = await sessionManager.getSession();
+      const page = await session.ensureBrowser();
+      const brokenQuery = async () => {
+        session.clearNetworkRequests();
+        const response = page.waitForResponse((r) => r.url().endsWith('/graphql'));
+        await page.evaluate(() => {
+          fetch('/graphql', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ operationName: 'BrokenQuery', query: 'query BrokenQuery { nope }' }),
+          });
+        });
+        await response;
+      };
+
+      await brokenQuery();
+      const broken = (await qa.verifyRequestSucceeded({ operationName: 'BrokenQuery', expectedStatus: 200 })).content[0].text || '';
+      assert(broken.startsWith('FAIL') && broken.includes('Cannot query field'), 'should wait for the errors check before verifying');
+
+      await brokenQuery();
+      const listed = (await network.getNetworkRequests({ operationName: 'BrokenQuery', failed: true, limit: 5 })).content[0].text || '';
+      assert(listed.includes('graphql errors'), 'should wait for the errors check before filtering failed requests');
+    });
+
+    await test('graphql: should need a query or persisted query extensions', async () => {
+      const json = { 'Content-Type': 'application/json' };
+      const named = parseGraphQLRequest('POST', 'http://localhost:3456/api/items', json, '{"operationName":"Save"}');
+      assert(named === undefined, 'should not treat a bare operationName as graphql');
+
+      const persisted = parseGraphQLRequest('POST', 'http://localhost:3456/graphql', json, JSON.stringify({
+        operationName: 'GetUser',
+        extensions: { persistedQuery: { version: 1, sha256Hash: 'abc' } },
+      }));
+      assert(persisted?.[0].operationName === 'GetUser', 'should recognize persisted queries');
+    });
+
+    await test('cdp attach: should adopt open tabs and report rejections in them once', async () => {
+      const profile = mkdtempSync(join(tmpdir(), 'claude-eyes-cdp-'));
+      const chrome = await chromium.launchPersistentContext(profile, { headless: true, args: ['--remote-debugging-port=9333'] });
+      try {
+        await chrome.pages()[0].goto('http://localhost:3456/');
+        const browser = await chromium.connectOverCDP('http://127.0.0.1:9333');
+        const config = await sessionManager.getConfig();
+        const fresh = new BrowserSession('cdp-fresh', 'chromium', config, { getBrowser: async () => browser }, true);
+        const refused = await fresh.setEmulation({ timezoneId: 'Europe/Berlin' }).then(() => '', (err: Error) => err.message);
+        assert(refused.includes('cannot recreate') && fresh.isAttached(), 'should attach instead of replacing the context on first use');
+        await fresh.close();
+
+        const session = new BrowserSession('cdp', 'chromium', config, { getBrowser: async () => browser }, true);
+
+        const page = await session.ensureBrowser();
+        const rejections = async () => {
+          await page.click('#reject-promise');
+          await new Promise((r) => setTimeout(r, 200));
+          return session.getConsoleLogs().filter((entry) => entry.text.includes('this is an unhandled rejection')).length;
+        };
+        assert(session.isAttached() && page.url() === 'http://localhost:3456/', 'should adopt the open tab');
+        assert((await rejections()) === 1, 'should report rejections in a tab opened before attaching');
+
+        // Attaching again must not stack a second listener on the context
+        await session.close();
+        assert((await session.ensureBrowser()) === page, 'should adopt the same tab again');
+        await page.reload();
+        assert((await rejections()) === 2, 'should report each rejection once after re-attaching');
+
+        await page.evaluate(() => console.error('logged after re-attaching'));
+        await new Promise((r) => setTimeout(r, 100));
+        assert(session.getConsoleLogs().some((entry) => entry.text === 'logged after re-attaching'), 'should listen to the adopted tab again');
+
+        await session.close();
+        await browser.close();
+      } finally {
+        await chrome.close();
+      }
+    });
+
+    await test('resources: should read named sessions and coalesce update notifications', async () => {
+      const server = new Server({ name: 'claude-eyes', version: 'test' }, { capabilities: { resources: { subscribe: true } } });
+      registerResources(server);
+      const client = new Client({ name: 'test-tools', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const updates: string[] = [];
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        updates.push(notification.params.uri);
+      });
+      const read = async (uri: string) => {
+        const content = (await client.readResource({ uri })).contents[0];
+        return JSON.parse('text' in content ? content.text : '{}');
+      };
+
+      await sessionTool.createSession({ name: 'bob smith', url: '/' });
+      const uri = 'eyes://sessions/bob%20smith/errors';
+      const listed = await client.listResources();
+      assert(listed.resources.some((r) => r.uri === uri), 'should list the named session with an encoded name');
+
+      const empty = await read(uri);
+      assert(empty.session === 'bob smith' && empty.entries.length === 0, 'should decode the session name from the uri');
+
+      const unknown = await client.readResource({ uri: 'eyes://sessions/nobody/console' }).then(() => '', (err: Error) => err.message);
+      assert(unknown.includes('session "nobody" not found'), 'should reject unknown sessions');
+
+      await client.subscribeResource({ uri });
+      const page = (await sessionManager.getSession('bob smith')).getPage()!;
+      await page.evaluate(() => {
+        for (let i = 0; i < 20; i++) console.error(`burst ${i}`);
+      });
+      await new Promise((r) => setTimeout(r, 100));
+      assert(updates.length === 0, 'should hold notifications for the coalescing delay');
+      await new Promise((r) => setTimeout(r, 400));
+      assert(updates.length === 1 && updates[0] === uri, 'should send one notification for the burst');
+
+      const burst = await read(uri);
+      assert(burst.entries.length === 20 && burst.entries[19].text === 'burst 19', 'should read the new entries');
+
+      await client.unsubscribeResource({ uri });
+      await page.evaluate(() => console.error('after unsubscribing'));
+      await new Promise((r) => setTimeout(r, 400));
+      assert(updates.length === 1, 'should stop notifying after unsubscribing');
+
+      await client.close();
+      await sessionTool.destroySession({ name: 'bob smith' });
+    });
+
     // Full login flow test
     await test('full flow: login workflow', async () => {
       // Reload page for clean state
       await navigation.reload({ waitUntil: 'load' });
 
       // Clear console
-      await consoleTool.clearConsole();
+      await consoleTool.clearConsole({});
 
       // Take before screenshot
       await visual.screenshot({ name: 'login-before', fullPage: false });